@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "TicketEventType" AS ENUM ('CREATED', 'UPDATED', 'MOVED', 'COMMENT_ADDED', 'COMMENT_EDITED', 'COMMENT_DELETED');
+
+-- CreateTable
+CREATE TABLE "ticket_events" (
+    "id" TEXT NOT NULL,
+    "type" "TicketEventType" NOT NULL,
+    "field" TEXT,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ticket_id" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "comment_id" TEXT,
+
+    CONSTRAINT "ticket_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_events_ticket_id_created_at_idx" ON "ticket_events"("ticket_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
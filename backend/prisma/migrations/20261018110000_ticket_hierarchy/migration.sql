@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "TicketType" ADD VALUE 'SUBTASK';
+
+-- AlterTable
+ALTER TABLE "statuses" ADD COLUMN     "is_done" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tickets_parent_id_idx" ON "tickets"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "tickets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Mark the "Done" column seeded with every board as the completion column
+UPDATE "statuses" SET "is_done" = true WHERE "name" = 'Done';
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "SprintState" AS ENUM ('PLANNED', 'ACTIVE', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "sprint_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "sprints" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "goal" TEXT,
+    "state" "SprintState" NOT NULL DEFAULT 'PLANNED',
+    "start_date" TIMESTAMP(3),
+    "end_date" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "sprints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sprints_project_id_state_idx" ON "sprints"("project_id", "state");
+
+-- CreateIndex
+CREATE INDEX "tickets_sprint_id_idx" ON "tickets"("sprint_id");
+
+-- AddForeignKey
+ALTER TABLE "sprints" ADD CONSTRAINT "sprints_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_sprint_id_fkey" FOREIGN KEY ("sprint_id") REFERENCES "sprints"("id") ON DELETE SET NULL ON UPDATE CASCADE;
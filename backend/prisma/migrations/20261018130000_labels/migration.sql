@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "labels" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6B7280',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "labels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ticket_labels" (
+    "ticket_id" TEXT NOT NULL,
+    "label_id" TEXT NOT NULL,
+
+    CONSTRAINT "ticket_labels_pkey" PRIMARY KEY ("ticket_id","label_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "labels_project_id_name_key" ON "labels"("project_id", "name");
+
+-- CreateIndex
+CREATE INDEX "ticket_labels_label_id_idx" ON "ticket_labels"("label_id");
+
+-- AddForeignKey
+ALTER TABLE "labels" ADD CONSTRAINT "labels_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_labels" ADD CONSTRAINT "ticket_labels_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_labels" ADD CONSTRAINT "ticket_labels_label_id_fkey" FOREIGN KEY ("label_id") REFERENCES "labels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MENTIONED';
+
+-- CreateTable
+CREATE TABLE "mentions" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ticket_id" TEXT NOT NULL,
+    "comment_id" TEXT,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mentions_ticket_id_idx" ON "mentions"("ticket_id");
+
+-- CreateIndex
+CREATE INDEX "mentions_comment_id_idx" ON "mentions"("comment_id");
+
+-- CreateIndex
+CREATE INDEX "mentions_user_id_idx" ON "mentions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
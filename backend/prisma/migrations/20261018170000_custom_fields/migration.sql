@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'DATE', 'SINGLE_SELECT', 'MULTI_SELECT', 'USER');
+
+-- CreateTable
+CREATE TABLE "custom_fields" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "min_value" DOUBLE PRECISION,
+    "max_value" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "custom_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "custom_field_values" (
+    "text_value" TEXT,
+    "number_value" DOUBLE PRECISION,
+    "date_value" TIMESTAMP(3),
+    "option_values" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "user_id" TEXT,
+    "ticket_id" TEXT NOT NULL,
+    "field_id" TEXT NOT NULL,
+
+    CONSTRAINT "custom_field_values_pkey" PRIMARY KEY ("ticket_id","field_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_fields_project_id_key_key" ON "custom_fields"("project_id", "key");
+
+-- CreateIndex
+CREATE INDEX "custom_field_values_field_id_idx" ON "custom_field_values"("field_id");
+
+-- AddForeignKey
+ALTER TABLE "custom_fields" ADD CONSTRAINT "custom_fields_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_field_values" ADD CONSTRAINT "custom_field_values_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_field_values" ADD CONSTRAINT "custom_field_values_field_id_fkey" FOREIGN KEY ("field_id") REFERENCES "custom_fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_field_values" ADD CONSTRAINT "custom_field_values_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
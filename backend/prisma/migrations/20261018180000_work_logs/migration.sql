@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "original_estimate" INTEGER,
+ADD COLUMN     "story_points" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "work_logs" (
+    "id" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "ticket_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "work_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_logs_ticket_id_date_idx" ON "work_logs"("ticket_id", "date");
+
+-- CreateIndex
+CREATE INDEX "work_logs_user_id_date_idx" ON "work_logs"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "work_logs" ADD CONSTRAINT "work_logs_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_logs" ADD CONSTRAINT "work_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "TicketEventType" ADD VALUE 'COMMENT_RESTORED';
+ALTER TYPE "TicketEventType" ADD VALUE 'DELETED';
+ALTER TYPE "TicketEventType" ADD VALUE 'RESTORED';
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_by_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_by_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tickets_project_id_deleted_at_idx" ON "tickets"("project_id", "deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_deleted_by_id_fkey" FOREIGN KEY ("deleted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comments" ADD CONSTRAINT "comments_deleted_by_id_fkey" FOREIGN KEY ("deleted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
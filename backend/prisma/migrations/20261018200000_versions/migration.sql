@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "statuses" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
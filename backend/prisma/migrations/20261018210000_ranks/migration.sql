@@ -0,0 +1,44 @@
+-- Ranks are compared byte by byte, so both columns use the "C" collation.
+-- Existing integer positions become fixed-width hex ranks with a trailing
+-- "i" (ranks never end in "0"); ties left by the old shifting are broken
+-- by ID.
+
+-- DropIndex
+DROP INDEX "statuses_board_id_order_key";
+
+-- AlterTable
+ALTER TABLE "statuses" ADD COLUMN     "rank" TEXT COLLATE "C";
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "rank" TEXT COLLATE "C";
+
+-- ConvertOrder
+UPDATE "statuses" AS s
+SET "rank" = lpad(to_hex(r."position"), 6, '0') || 'i'
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "board_id" ORDER BY "order", "id") AS "position"
+    FROM "statuses"
+) AS r
+WHERE s."id" = r."id";
+
+UPDATE "tickets" AS t
+SET "rank" = lpad(to_hex(r."position"), 6, '0') || 'i'
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "status_id" ORDER BY "order", "id") AS "position"
+    FROM "tickets"
+) AS r
+WHERE t."id" = r."id";
+
+-- AlterTable
+ALTER TABLE "statuses" DROP COLUMN "order",
+ALTER COLUMN "rank" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "tickets" DROP COLUMN "order",
+ALTER COLUMN "rank" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "statuses_board_id_rank_idx" ON "statuses"("board_id", "rank");
+
+-- CreateIndex
+CREATE INDEX "tickets_status_id_rank_idx" ON "tickets"("status_id", "rank");
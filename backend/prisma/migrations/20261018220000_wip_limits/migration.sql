@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "WipLimitMode" AS ENUM ('SOFT', 'HARD');
+
+-- AlterTable
+ALTER TABLE "boards" ADD COLUMN     "wip_limit_mode" "WipLimitMode" NOT NULL DEFAULT 'SOFT';
+
+-- AlterTable
+ALTER TABLE "statuses" ADD COLUMN     "wip_limit" INTEGER;
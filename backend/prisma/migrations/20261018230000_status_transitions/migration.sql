@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "status_transitions" (
+    "id" TEXT NOT NULL,
+    "required_role" "Role",
+    "required_fields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "from_status_id" TEXT NOT NULL,
+    "to_status_id" TEXT NOT NULL,
+
+    CONSTRAINT "status_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "status_transitions_to_status_id_idx" ON "status_transitions"("to_status_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "status_transitions_from_status_id_to_status_id_key" ON "status_transitions"("from_status_id", "to_status_id");
+
+-- AddForeignKey
+ALTER TABLE "status_transitions" ADD CONSTRAINT "status_transitions_from_status_id_fkey" FOREIGN KEY ("from_status_id") REFERENCES "statuses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "status_transitions" ADD CONSTRAINT "status_transitions_to_status_id_fkey" FOREIGN KEY ("to_status_id") REFERENCES "statuses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'AUTOMATION';
+
+-- CreateEnum
+CREATE TYPE "AutomationTrigger" AS ENUM ('TICKET_CREATED', 'TICKET_MOVED', 'FIELD_CHANGED', 'COMMENT_ADDED', 'DUE_DATE_PASSED');
+
+-- CreateEnum
+CREATE TYPE "AutomationExecutionStatus" AS ENUM ('SUCCESS', 'FAILED', 'LOOP_PREVENTED');
+
+-- CreateTable
+CREATE TABLE "automation_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "trigger" "AutomationTrigger" NOT NULL,
+    "trigger_status_id" TEXT,
+    "trigger_field" TEXT,
+    "conditions" TEXT,
+    "actions" JSONB NOT NULL,
+    "due_date_checked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "created_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "automation_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "automation_executions" (
+    "id" TEXT NOT NULL,
+    "status" "AutomationExecutionStatus" NOT NULL,
+    "trigger" "AutomationTrigger" NOT NULL,
+    "event" JSONB NOT NULL,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rule_id" TEXT NOT NULL,
+    "ticket_id" TEXT,
+
+    CONSTRAINT "automation_executions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "automation_rules_project_id_trigger_idx" ON "automation_rules"("project_id", "trigger");
+
+-- CreateIndex
+CREATE INDEX "automation_executions_rule_id_created_at_idx" ON "automation_executions"("rule_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "automation_executions_ticket_id_idx" ON "automation_executions"("ticket_id");
+
+-- AddForeignKey
+ALTER TABLE "automation_rules" ADD CONSTRAINT "automation_rules_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automation_rules" ADD CONSTRAINT "automation_rules_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automation_rules" ADD CONSTRAINT "automation_rules_trigger_status_id_fkey" FOREIGN KEY ("trigger_status_id") REFERENCES "statuses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automation_executions" ADD CONSTRAINT "automation_executions_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "automation_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automation_executions" ADD CONSTRAINT "automation_executions_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
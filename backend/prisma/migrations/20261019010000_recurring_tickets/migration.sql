@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN "recurring_ticket_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "recurring_tickets" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "TicketType" NOT NULL DEFAULT 'TASK',
+    "priority" "TicketPriority" NOT NULL DEFAULT 'MEDIUM',
+    "schedule" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "status_id" TEXT,
+    "assignee_id" TEXT,
+    "created_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "recurring_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tickets_recurring_ticket_id_idx" ON "tickets"("recurring_ticket_id");
+
+-- CreateIndex
+CREATE INDEX "recurring_tickets_project_id_idx" ON "recurring_tickets"("project_id");
+
+-- CreateIndex
+CREATE INDEX "recurring_tickets_next_run_at_idx" ON "recurring_tickets"("next_run_at");
+
+-- AddForeignKey
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_recurring_ticket_id_fkey" FOREIGN KEY ("recurring_ticket_id") REFERENCES "recurring_tickets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_tickets" ADD CONSTRAINT "recurring_tickets_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_tickets" ADD CONSTRAINT "recurring_tickets_status_id_fkey" FOREIGN KEY ("status_id") REFERENCES "statuses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_tickets" ADD CONSTRAINT "recurring_tickets_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_tickets" ADD CONSTRAINT "recurring_tickets_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "ticket_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "TicketType",
+    "priority" "TicketPriority",
+    "assignee_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "ticket_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ticket_template_labels" (
+    "template_id" TEXT NOT NULL,
+    "label_id" TEXT NOT NULL,
+
+    CONSTRAINT "ticket_template_labels_pkey" PRIMARY KEY ("template_id","label_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ticket_templates_project_id_name_key" ON "ticket_templates"("project_id", "name");
+
+-- CreateIndex
+CREATE INDEX "ticket_template_labels_label_id_idx" ON "ticket_template_labels"("label_id");
+
+-- AddForeignKey
+ALTER TABLE "ticket_templates" ADD CONSTRAINT "ticket_templates_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_templates" ADD CONSTRAINT "ticket_templates_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_template_labels" ADD CONSTRAINT "ticket_template_labels_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "ticket_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_template_labels" ADD CONSTRAINT "ticket_template_labels_label_id_fkey" FOREIGN KEY ("label_id") REFERENCES "labels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
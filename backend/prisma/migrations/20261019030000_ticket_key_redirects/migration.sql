@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ticket_key_redirects" (
+    "project_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ticket_id" TEXT NOT NULL,
+
+    CONSTRAINT "ticket_key_redirects_pkey" PRIMARY KEY ("project_id","number")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_key_redirects_ticket_id_idx" ON "ticket_key_redirects"("ticket_id");
+
+-- AddForeignKey
+ALTER TABLE "ticket_key_redirects" ADD CONSTRAINT "ticket_key_redirects_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ticket_key_redirects" ADD CONSTRAINT "ticket_key_redirects_ticket_id_fkey" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'DUE_SOON';
+ALTER TYPE "NotificationType" ADD VALUE 'OVERDUE';
+ALTER TYPE "NotificationType" ADD VALUE 'OVERDUE_ESCALATED';
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "due_reminder_sent_at" TIMESTAMP(3),
+ADD COLUMN     "overdue_escalated_at" TIMESTAMP(3),
+ADD COLUMN     "overdue_notified_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tickets_due_date_idx" ON "tickets"("due_date");
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SLA_BREACHED';
+
+-- AlterTable
+ALTER TABLE "statuses" ADD COLUMN     "sla_paused" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "sla_resolution_breached_at" TIMESTAMP(3),
+ADD COLUMN     "sla_response_breached_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "sla_policies" (
+    "id" TEXT NOT NULL,
+    "priority" "TicketPriority" NOT NULL,
+    "response_minutes" INTEGER,
+    "resolution_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "response_status_id" TEXT,
+
+    CONSTRAINT "sla_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sla_policies_project_id_priority_key" ON "sla_policies"("project_id", "priority");
+
+-- AddForeignKey
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_response_status_id_fkey" FOREIGN KEY ("response_status_id") REFERENCES "statuses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
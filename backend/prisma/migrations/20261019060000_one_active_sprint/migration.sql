@@ -0,0 +1,3 @@
+-- CreateIndex
+-- At most one active sprint per project; Prisma can't express a partial index
+CREATE UNIQUE INDEX "sprints_project_id_active_key" ON "sprints"("project_id") WHERE "state" = 'ACTIVE';
@@ -1,23 +1,50 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { LoggerModule } from 'nestjs-pino';
 import { PrismaModule } from './prisma/prisma.module';
 import appConfig from './config/app.config';
 import databaseConfig from './config/database.config';
 import jwtConfig from './config/jwt.config';
+import storageConfig from './config/storage.config';
+import trashConfig from './config/trash.config';
+import notificationsConfig from './config/notifications.config';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { ProjectsModule } from './modules/projects/project.module';
 import { BoardsModule } from './modules/boards/boards.module';
 import { StatusesModule } from './modules/statuses/statuses.module';
+import { TransitionsModule } from './modules/transitions/transitions.module';
 import { TicketsModule } from './modules/tickets/tickets.module';
 import { CommentsModule } from './modules/comments/comments.module';
+import { ActivityModule } from './modules/activity/activity.module';
+import { TicketLinksModule } from './modules/ticket-links/ticket-links.module';
+import { SprintsModule } from './modules/sprints/sprints.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { WatchersModule } from './modules/watchers/watchers.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { AttachmentsModule } from './modules/attachments/attachments.module';
+import { CustomFieldsModule } from './modules/custom-fields/custom-fields.module';
+import { WorkLogsModule } from './modules/work-logs/work-logs.module';
+import { TrashModule } from './modules/trash/trash.module';
+import { AutomationModule } from './modules/automation/automation.module';
+import { RecurringTicketsModule } from './modules/recurring-tickets/recurring-tickets.module';
+import { TicketTemplatesModule } from './modules/ticket-templates/ticket-templates.module';
+import { DueRemindersModule } from './modules/due-reminders/due-reminders.module';
+import { SlaModule } from './modules/sla/sla.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, databaseConfig, jwtConfig],
+      load: [
+        appConfig,
+        databaseConfig,
+        jwtConfig,
+        storageConfig,
+        trashConfig,
+        notificationsConfig,
+      ],
       envFilePath: '.env',
     }),
 
@@ -35,14 +62,32 @@ import { CommentsModule } from './modules/comments/comments.module';
       },
     }),
 
+    ScheduleModule.forRoot(),
+
     PrismaModule,
     AuthModule,
     UsersModule,
     ProjectsModule,
     BoardsModule,
     StatusesModule,
+    TransitionsModule,
     TicketsModule,
     CommentsModule,
+    ActivityModule,
+    TicketLinksModule,
+    SprintsModule,
+    LabelsModule,
+    WatchersModule,
+    NotificationsModule,
+    AttachmentsModule,
+    CustomFieldsModule,
+    WorkLogsModule,
+    TrashModule,
+    AutomationModule,
+    RecurringTicketsModule,
+    TicketTemplatesModule,
+    DueRemindersModule,
+    SlaModule,
   ],
 })
 export class AppModule {}
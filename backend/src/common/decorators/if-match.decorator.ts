@@ -0,0 +1,31 @@
+import {
+  BadRequestException,
+  createParamDecorator,
+  ExecutionContext,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+const VERSION_ETAG_PATTERN = /^(?:W\/)?"(\d+)"$/;
+
+/**
+ * The version a client expects, parsed from an `If-Match: "<version>"`
+ * header. `undefined` when the header is absent or `*`, i.e. no
+ * precondition.
+ */
+export const IfMatch = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): number | undefined => {
+    const header = ctx.switchToHttp().getRequest<Request>().headers['if-match'];
+
+    if (header === undefined || header.trim() === '*') return undefined;
+
+    const match = VERSION_ETAG_PATTERN.exec(header.trim());
+
+    if (!match) {
+      throw new BadRequestException(
+        'If-Match must be a single version ETag, e.g. "3"',
+      );
+    }
+
+    return Number(match[1]);
+  },
+);
@@ -0,0 +1,16 @@
+import { IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationQueryDto {
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+}
@@ -12,6 +12,7 @@ export interface ErrorResponse {
   statusCode: number;
   message: string | string[];
   error: string;
+  details?: Record<string, unknown>;
   path: string;
   timestamp: string;
 }
@@ -28,6 +29,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
     let statusCode = HttpStatus.INTERNAL_SERVER_ERROR;
     let message: string | string[] = 'Internal server error';
     let error = 'Internal Server Error';
+    let details: Record<string, unknown> | undefined;
 
     if (exception instanceof HttpException) {
       statusCode = exception.getStatus();
@@ -39,6 +41,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
         const res = exceptionResponse as Record<string, any>;
         message = res.message || message;
         error = res.error || error;
+        details = res.details as Record<string, unknown> | undefined;
       }
     } else if (exception instanceof Error) {
       message = exception.message;
@@ -52,6 +55,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       statusCode,
       message,
       error,
+      ...(details && { details }),
       path: request.url,
       timestamp: new Date().toISOString(),
     };
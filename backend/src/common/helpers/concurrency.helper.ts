@@ -0,0 +1,15 @@
+import { PreconditionFailedException } from '@nestjs/common';
+
+/**
+ * Rejects a write whose `If-Match` version is out of date. The current
+ * state of the resource goes in `details.current` so the client can merge
+ * or retry without another round trip.
+ */
+export function versionConflict(current: { version: number }) {
+  return new PreconditionFailedException({
+    message:
+      'This resource was changed by someone else. Review the current version and try again.',
+    error: 'Precondition Failed',
+    details: { currentVersion: current.version, current },
+  });
+}
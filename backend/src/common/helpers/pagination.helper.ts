@@ -0,0 +1,41 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginationQueryDto,
+} from '../dto/pagination-query.dto';
+
+export interface Paginated<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Prisma `findMany` arguments for one page of a cursor-paginated listing.
+ * Fetches one extra row so `toPage` can tell whether another page exists.
+ * The caller's `orderBy` must end with a unique column (usually `id`).
+ */
+export function cursorArgs(
+  query: PaginationQueryDto,
+  defaultLimit = DEFAULT_PAGE_SIZE,
+) {
+  const limit = query.limit ?? defaultLimit;
+
+  return {
+    take: limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  };
+}
+
+export function toPage<T extends { id: string }>(
+  rows: T[],
+  query: PaginationQueryDto,
+  defaultLimit = DEFAULT_PAGE_SIZE,
+): Paginated<T> {
+  const limit = query.limit ?? defaultLimit;
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    data,
+    nextCursor: hasMore ? data[data.length - 1].id : null,
+  };
+}
@@ -28,18 +28,22 @@ export async function getProjectMember(
   return member;
 }
 
-export function assertRole(
-  userRole: Role,
-  requiredRole: Role,
-  message = 'You do not have permission to perform this action',
-): void {
+export function hasRole(userRole: Role, requiredRole: Role): boolean {
   const hierarchy: Record<Role, number> = {
     [Role.OWNER]: 3,
     [Role.ADMIN]: 2,
     [Role.MEMBER]: 1,
   };
 
-  if (hierarchy[userRole] < hierarchy[requiredRole]) {
+  return hierarchy[userRole] >= hierarchy[requiredRole];
+}
+
+export function assertRole(
+  userRole: Role,
+  requiredRole: Role,
+  message = 'You do not have permission to perform this action',
+): void {
+  if (!hasRole(userRole, requiredRole)) {
     throw new ForbiddenException(message);
   }
 }
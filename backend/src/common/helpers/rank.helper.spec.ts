@@ -0,0 +1,75 @@
+import { evenRanks, rankBetween } from './rank.helper';
+
+describe('rank helper', () => {
+  const isBetween = (
+    rank: string,
+    before: string | null,
+    after: string | null,
+  ) => (before === null || before < rank) && (after === null || rank < after);
+
+  describe('rankBetween', () => {
+    it('ranks the first row in the middle of the space', () => {
+      expect(rankBetween(null, null)).toBe('i');
+    });
+
+    it('finds a rank between neighbours, before the first and after the last', () => {
+      const cases: [string | null, string | null][] = [
+        ['a', 'b'],
+        ['a', 'a1'],
+        ['az', 'b'],
+        ['0i', '1'],
+        [null, '000001i'],
+        ['zzz', null],
+        [null, '1'],
+      ];
+
+      for (const [before, after] of cases) {
+        const rank = rankBetween(before, after);
+        expect(isBetween(rank, before, after)).toBe(true);
+        expect(rank).not.toMatch(/0$/);
+      }
+    });
+
+    it('keeps order across many inserts at the same spot', () => {
+      const ranks = [rankBetween(null, null)];
+
+      for (let i = 0; i < 200; i++) {
+        ranks.splice(1, 0, rankBetween(ranks[0], ranks[1] ?? null));
+      }
+
+      expect([...ranks].sort()).toEqual(ranks);
+      expect(new Set(ranks).size).toBe(ranks.length);
+    });
+
+    it('grows slowly when rows keep going to the top', () => {
+      let first = rankBetween(null, null);
+      for (let i = 0; i < 40; i++) first = rankBetween(null, first);
+
+      expect(first.length).toBeLessThanOrEqual(10);
+    });
+
+    it('rejects neighbours in the wrong order', () => {
+      expect(() => rankBetween('b', 'a')).toThrow();
+      expect(() => rankBetween('a', 'a')).toThrow();
+    });
+  });
+
+  describe('evenRanks', () => {
+    it('returns distinct, sorted ranks with room between them', () => {
+      const ranks = evenRanks(500);
+
+      expect(ranks).toHaveLength(500);
+      expect([...ranks].sort()).toEqual(ranks);
+      expect(new Set(ranks).size).toBe(500);
+
+      for (let i = 1; i < ranks.length; i++) {
+        const rank = rankBetween(ranks[i - 1], ranks[i]);
+        expect(rank.length).toBeLessThanOrEqual(ranks[i].length + 1);
+      }
+    });
+
+    it('never ends a rank in zero', () => {
+      expect(evenRanks(1000).some((rank) => rank.endsWith('0'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Lexicographic ranks for manually ordered rows (tickets in a column,
+ * columns on a board). A rank is a base-36 fraction written without the
+ * leading "0." — "i" is 0.5, "9" is 0.25 — so sorting the strings sorts the
+ * rows, and there is always room for another rank between two neighbours.
+ * Ranks never end in "0", which keeps that room before every rank.
+ *
+ * The columns are collated `"C"` so Postgres compares them byte by byte.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+/** Beyond this length a column is rebalanced to evenly spaced ranks. */
+export const REBALANCE_RANK_LENGTH = 12;
+
+/**
+ * A rank strictly between `before` and `after`; `null` means the start or
+ * end of the list.
+ */
+export function rankBetween(before: string | null, after: string | null) {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank "${before}" must sort before "${after}"`);
+  }
+
+  return midpoint(before ?? '', after);
+}
+
+/** `count` evenly spaced ranks in ascending order, for rebalancing. */
+export function evenRanks(count: number): string[] {
+  // One spare digit leaves ~36 free ranks between each pair
+  let width = 1;
+  while (BASE ** width < (count + 1) * BASE) width++;
+
+  const step = BASE ** width / (count + 1);
+
+  return Array.from({ length: count }, (_, i) =>
+    Math.floor(step * (i + 1))
+      .toString(BASE)
+      .padStart(width, '0')
+      .replace(/0+$/, ''),
+  );
+}
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix; "" compares like an endless run of zeros
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) n++;
+
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Adjacent digits: b's first digit alone still sorts after a, unless b
+  // is exactly that digit; otherwise go one digit deeper after a's
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
@@ -0,0 +1,33 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { Observable, tap } from 'rxjs';
+
+/**
+ * Sets `ETag: "<version>"` on responses for a single versioned resource.
+ * The ETag is a concurrency token for `If-Match`, not a cache validator —
+ * a ticket's comments or logged time change without a new version — so
+ * responses are also marked `no-store` to keep browsers from revalidating
+ * with `If-None-Match` and getting a stale `304`.
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const response = context.switchToHttp().getResponse<Response>();
+
+    return next.handle().pipe(
+      tap((body) => {
+        const version = (body as { version?: unknown } | null)?.version;
+
+        if (typeof version === 'number') {
+          response.setHeader('ETag', `"${version}"`);
+          response.setHeader('Cache-Control', 'no-store');
+        }
+      }),
+    );
+  }
+}
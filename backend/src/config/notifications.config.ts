@@ -0,0 +1,18 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('notifications', () => ({
+  channels: (process.env.NOTIFICATION_CHANNELS || 'in-app')
+    .split(',')
+    .map((channel) => channel.trim())
+    .filter(Boolean),
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    from: process.env.SMTP_FROM || 'lume@localhost',
+  },
+  dueReminderOffsets: (process.env.DUE_REMINDER_OFFSETS ?? '1d,1h')
+    .split(',')
+    .map((offset) => offset.trim())
+    .filter(Boolean),
+  overdueEscalationHours: Number(process.env.OVERDUE_ESCALATION_HOURS) || 24,
+}));
@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('storage', () => ({
+  driver: process.env.STORAGE_DRIVER || 'local',
+  localPath: process.env.STORAGE_LOCAL_PATH || 'uploads',
+  maxFileSize: Number(process.env.STORAGE_MAX_FILE_SIZE) || 10 * 1024 * 1024,
+  allowedMimeTypes: (
+    process.env.STORAGE_ALLOWED_MIME_TYPES ||
+    'image/*,text/plain,application/pdf,application/json,application/zip'
+  ).split(','),
+  s3: {
+    endpoint: process.env.S3_ENDPOINT,
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  },
+}));
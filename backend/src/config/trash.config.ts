@@ -0,0 +1,5 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('trash', () => ({
+  retentionDays: Number(process.env.TRASH_RETENTION_DAYS) || 30,
+}));
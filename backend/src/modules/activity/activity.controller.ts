@@ -0,0 +1,26 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class ActivityController {
+  constructor(private readonly activityService: ActivityService) {}
+
+  @Get(':projectId/tickets/:ticketId/activity')
+  findForTicket(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.activityService.findForTicket(
+      projectId,
+      ticketId,
+      user.id,
+      query,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+import { ActivityController } from './activity.controller';
+
+@Module({
+  controllers: [ActivityController],
+  providers: [ActivityService],
+  exports: [ActivityService],
+})
+export class ActivityModule {}
@@ -0,0 +1,104 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { Prisma } from 'src/generated/prisma/client';
+import { TicketEventType } from 'src/generated/prisma/enums';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+
+export interface TicketEventInput {
+  type: TicketEventType;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  commentId?: string;
+}
+
+@Injectable()
+export class ActivityService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Persists history entries for a ticket. Accepts a transaction client so
+   * callers can write the events atomically with the change they describe.
+   */
+  async record(
+    client: Prisma.TransactionClient,
+    ticketId: string,
+    actorId: string,
+    events: TicketEventInput[],
+  ): Promise<void> {
+    if (events.length === 0) return;
+
+    await client.ticketEvent.createMany({
+      data: events.map((event) => ({
+        ticketId,
+        actorId,
+        type: event.type,
+        field: event.field,
+        oldValue: this.serialize(event.oldValue),
+        newValue: this.serialize(event.newValue),
+        commentId: event.commentId,
+      })),
+    });
+  }
+
+  diff(
+    before: Record<string, unknown>,
+    changes: Record<string, unknown>,
+  ): TicketEventInput[] {
+    return Object.entries(changes)
+      .filter(([, value]) => value !== undefined)
+      .filter(
+        ([field, value]) =>
+          this.serialize(before[field]) !== this.serialize(value),
+      )
+      .map(([field, value]) => ({
+        type: TicketEventType.UPDATED,
+        field,
+        oldValue: before[field],
+        newValue: value,
+      }));
+  }
+
+  async findForTicket(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    query: PaginationQueryDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const events = await this.prisma.ticketEvent.findMany({
+      where: { ticketId },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(events, query);
+  }
+
+  private serialize(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number | boolean);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AttachmentsService } from './attachments.service';
+import type { UploadedAttachmentFile } from './attachments.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  @Post(':projectId/tickets/:ticketId/attachments')
+  @UseInterceptors(FileInterceptor('file'))
+  upload(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @UploadedFile() file: UploadedAttachmentFile | undefined,
+  ) {
+    return this.attachmentsService.upload(projectId, ticketId, user.id, file);
+  }
+
+  @Post(':projectId/tickets/:ticketId/comments/:commentId/attachments')
+  @UseInterceptors(FileInterceptor('file'))
+  uploadToComment(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('commentId') commentId: string,
+    @UploadedFile() file: UploadedAttachmentFile | undefined,
+  ) {
+    return this.attachmentsService.upload(
+      projectId,
+      ticketId,
+      user.id,
+      file,
+      commentId,
+    );
+  }
+
+  @Get(':projectId/tickets/:ticketId/attachments')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.attachmentsService.findAll(projectId, ticketId, user.id);
+  }
+
+  @Get(':projectId/tickets/:ticketId/attachments/:attachmentId')
+  async download(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('attachmentId') attachmentId: string,
+  ) {
+    const { attachment, stream } = await this.attachmentsService.download(
+      projectId,
+      ticketId,
+      attachmentId,
+      user.id,
+    );
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  @Delete(':projectId/tickets/:ticketId/attachments/:attachmentId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('attachmentId') attachmentId: string,
+  ) {
+    return this.attachmentsService.remove(
+      projectId,
+      ticketId,
+      attachmentId,
+      user.id,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+import { storageDriverProvider } from './storage/storage.provider';
+
+@Module({
+  imports: [
+    // Uploads are buffered in memory; this caps them at the global limit
+    // before the per-project checks in AttachmentsService run.
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: { fileSize: config.get<number>('storage.maxFileSize') },
+      }),
+    }),
+  ],
+  controllers: [AttachmentsController],
+  providers: [AttachmentsService, storageDriverProvider],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
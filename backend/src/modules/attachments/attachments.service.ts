@@ -0,0 +1,259 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { Role } from 'src/generated/prisma/enums';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import type { StorageDriver } from './storage/storage-driver';
+
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class AttachmentsService {
+  private readonly logger = new Logger(AttachmentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+  ) {}
+
+  async upload(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    file: UploadedAttachmentFile | undefined,
+    commentId?: string,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    if (!file) throw new BadRequestException('A file is required');
+
+    const ticket = await this.findTicketInProject(projectId, ticketId);
+
+    if (commentId) {
+      const comment = await this.prisma.comment.findFirst({
+        where: { id: commentId, ticketId, deletedAt: null },
+      });
+      if (!comment) throw new NotFoundException('Comment not found');
+    }
+
+    await this.assertWithinLimits(projectId, file);
+
+    const storageKey = `${projectId}/${ticket.id}/${randomUUID()}`;
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    try {
+      return await this.prisma.attachment.create({
+        data: {
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          storageKey,
+          ticketId,
+          commentId,
+          uploaderId: userId,
+        },
+        include: {
+          uploader: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+    } catch (err) {
+      await this.deleteBlobs([storageKey]);
+      throw err;
+    }
+  }
+
+  async findAll(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    return this.prisma.attachment.findMany({
+      where: {
+        ticketId,
+        OR: [{ commentId: null }, { comment: { deletedAt: null } }],
+      },
+      include: {
+        uploader: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async download(
+    projectId: string,
+    ticketId: string,
+    attachmentId: string,
+    userId: string,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const attachment = await this.findAttachment(
+      projectId,
+      ticketId,
+      attachmentId,
+    );
+
+    return {
+      attachment,
+      stream: await this.storage.get(attachment.storageKey),
+    };
+  }
+
+  async remove(
+    projectId: string,
+    ticketId: string,
+    attachmentId: string,
+    userId: string,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const attachment = await this.findAttachment(
+      projectId,
+      ticketId,
+      attachmentId,
+    );
+
+    const isUploader = attachment.uploaderId === userId;
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (!isUploader && !isAdminOrOwner) {
+      throw new ForbiddenException(
+        'Only the uploader, admin, or owner can delete this attachment',
+      );
+    }
+
+    await this.prisma.attachment.delete({ where: { id: attachmentId } });
+    await this.deleteBlobs([attachment.storageKey]);
+
+    return { message: 'Attachment deleted successfully' };
+  }
+
+  /**
+   * Storage keys of the attachments matching `where`. Callers that purge
+   * tickets, comments or projects read these first, since the rows cascade
+   * away with their parent, then pass them to `deleteBlobs`.
+   */
+  async findStorageKeys(where: Prisma.AttachmentWhereInput) {
+    const attachments = await this.prisma.attachment.findMany({
+      where,
+      select: { storageKey: true },
+    });
+
+    return attachments.map((a) => a.storageKey);
+  }
+
+  /**
+   * Removes blobs whose rows are already gone. Failures are logged rather
+   * than thrown — the delete the caller performed has already committed.
+   */
+  async deleteBlobs(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    try {
+      await this.storage.delete(keys);
+    } catch (err) {
+      this.logger.error(
+        `Failed to delete ${keys.length} attachment blob(s): ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private async assertWithinLimits(
+    projectId: string,
+    file: UploadedAttachmentFile,
+  ) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { attachmentMaxBytes: true, attachmentMimeTypes: true },
+    });
+
+    const globalMax = this.config.get<number>('storage.maxFileSize')!;
+    const maxBytes = Math.min(
+      project?.attachmentMaxBytes ?? globalMax,
+      globalMax,
+    );
+
+    if (file.size > maxBytes) {
+      throw new PayloadTooLargeException(
+        `File exceeds the ${maxBytes} byte limit for this project`,
+      );
+    }
+
+    const allowed = project?.attachmentMimeTypes.length
+      ? project.attachmentMimeTypes
+      : this.config.get<string[]>('storage.allowedMimeTypes')!;
+
+    const isAllowed = allowed.some((pattern) =>
+      pattern.endsWith('/*')
+        ? file.mimetype.startsWith(pattern.slice(0, -1))
+        : file.mimetype === pattern,
+    );
+
+    if (!isAllowed) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} is not allowed. Allowed: ${allowed.join(', ')}`,
+      );
+    }
+  }
+
+  private async findTicketInProject(projectId: string, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    return ticket;
+  }
+
+  private async findAttachment(
+    projectId: string,
+    ticketId: string,
+    attachmentId: string,
+  ) {
+    const attachment = await this.prisma.attachment.findFirst({
+      where: {
+        id: attachmentId,
+        ticketId,
+        ticket: { projectId, deletedAt: null },
+        OR: [{ commentId: null }, { comment: { deletedAt: null } }],
+      },
+    });
+
+    if (!attachment) throw new NotFoundException('Attachment not found');
+
+    return attachment;
+  }
+}
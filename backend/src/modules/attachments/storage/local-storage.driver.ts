@@ -0,0 +1,48 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver';
+
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException('Attachment file not found');
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) => rm(this.pathFor(key), { force: true })),
+    );
+  }
+
+  private pathFor(key: string) {
+    const path = resolve(this.root, key);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+
+    return path;
+  }
+}
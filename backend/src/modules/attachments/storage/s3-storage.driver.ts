@@ -0,0 +1,65 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver';
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Works with AWS S3 and S3-compatible servers (MinIO, LocalStack, ...).
+ * For a local stand-in, set `S3_ENDPOINT` and `S3_FORCE_PATH_STYLE=true`.
+ */
+export class S3StorageDriver implements StorageDriver {
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+  ) {}
+
+  async put(key: string, body: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return object.Body as Readable;
+    } catch (err) {
+      if (err instanceof NoSuchKey) {
+        throw new NotFoundException('Attachment file not found');
+      }
+      throw err;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: keys
+              .slice(i, i + DELETE_BATCH_SIZE)
+              .map((key) => ({ Key: key })),
+            Quiet: true,
+          },
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Blob store behind attachments. Keys are opaque, slash-separated paths
+ * generated by `AttachmentsService` — never user-supplied file names.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  /** Missing keys are ignored so cleanup can be retried safely. */
+  delete(keys: string[]): Promise<void>;
+}
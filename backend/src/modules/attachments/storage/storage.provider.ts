@@ -0,0 +1,43 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { S3Client } from '@aws-sdk/client-s3';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+
+export const storageDriverProvider: Provider = {
+  provide: STORAGE_DRIVER,
+  inject: [ConfigService],
+  useFactory: (config: ConfigService): StorageDriver => {
+    const driver = config.get<string>('storage.driver');
+
+    switch (driver) {
+      case 'local':
+        return new LocalStorageDriver(config.get<string>('storage.localPath')!);
+      case 's3': {
+        const bucket = config.get<string>('storage.s3.bucket');
+        if (!bucket) throw new Error('S3_BUCKET is required for s3 storage');
+
+        const accessKeyId = config.get<string>('storage.s3.accessKeyId');
+        const secretAccessKey = config.get<string>(
+          'storage.s3.secretAccessKey',
+        );
+
+        const client = new S3Client({
+          endpoint: config.get<string>('storage.s3.endpoint'),
+          region: config.get<string>('storage.s3.region'),
+          forcePathStyle: config.get<boolean>('storage.s3.forcePathStyle'),
+          // Fall back to the SDK's default credential chain when unset
+          ...(accessKeyId &&
+            secretAccessKey && {
+              credentials: { accessKeyId, secretAccessKey },
+            }),
+        });
+
+        return new S3StorageDriver(client, bucket);
+      }
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+    }
+  },
+};
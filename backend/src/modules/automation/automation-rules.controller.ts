@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AutomationRulesService } from './automation-rules.service';
+import { CreateAutomationRuleDto } from './dto/create-automation-rule.dto';
+import { UpdateAutomationRuleDto } from './dto/update-automation-rule.dto';
+import { DryRunAutomationRuleDto } from './dto/dry-run-automation-rule.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class AutomationRulesController {
+  constructor(
+    private readonly automationRulesService: AutomationRulesService,
+  ) {}
+
+  @Post(':projectId/automation-rules')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateAutomationRuleDto,
+  ) {
+    return this.automationRulesService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/automation-rules')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.automationRulesService.findAll(projectId, user.id);
+  }
+
+  @Get(':projectId/automation-rules/:ruleId')
+  findOne(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ruleId') ruleId: string,
+  ) {
+    return this.automationRulesService.findOne(projectId, ruleId, user.id);
+  }
+
+  @Patch(':projectId/automation-rules/:ruleId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ruleId') ruleId: string,
+    @Body() dto: UpdateAutomationRuleDto,
+  ) {
+    return this.automationRulesService.update(projectId, ruleId, user.id, dto);
+  }
+
+  @Delete(':projectId/automation-rules/:ruleId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ruleId') ruleId: string,
+  ) {
+    return this.automationRulesService.remove(projectId, ruleId, user.id);
+  }
+
+  @Get(':projectId/automation-rules/:ruleId/executions')
+  findExecutions(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ruleId') ruleId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.automationRulesService.findExecutions(
+      projectId,
+      ruleId,
+      user.id,
+      query,
+    );
+  }
+
+  @Post(':projectId/automation-rules/:ruleId/dry-run')
+  @HttpCode(HttpStatus.OK)
+  dryRun(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ruleId') ruleId: string,
+    @Body() dto: DryRunAutomationRuleDto,
+  ) {
+    return this.automationRulesService.dryRun(
+      projectId,
+      ruleId,
+      user.id,
+      dto.ticketId,
+    );
+  }
+}
@@ -0,0 +1,340 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AutomationService } from './automation.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { CreateAutomationRuleDto } from './dto/create-automation-rule.dto';
+import { UpdateAutomationRuleDto } from './dto/update-automation-rule.dto';
+import { AutomationActionDto } from './dto/automation-action.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { parseTicketQuery } from '../tickets/query/ticket-query.parser';
+import { compileTicketQuery } from '../tickets/query/ticket-query.compiler';
+import { AutomationTrigger, Role } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+
+const RULE_INCLUDE = {
+  triggerStatus: { select: { id: true, name: true } },
+  createdBy: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+} as const;
+
+@Injectable()
+export class AutomationRulesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly automationService: AutomationService,
+    private readonly customFieldsService: CustomFieldsService,
+  ) {}
+
+  async create(
+    projectId: string,
+    userId: string,
+    dto: CreateAutomationRuleDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.validateTrigger(
+      projectId,
+      dto.trigger,
+      dto.triggerStatusId ?? null,
+      dto.triggerField ?? null,
+    );
+    await this.validateConditions(projectId, userId, dto.conditions ?? null);
+    const actions = await this.validateActions(projectId, dto.actions);
+
+    return this.prisma.automationRule.create({
+      data: {
+        name: dto.name,
+        enabled: dto.enabled,
+        trigger: dto.trigger,
+        triggerStatusId: dto.triggerStatusId,
+        triggerField: dto.triggerField,
+        conditions: dto.conditions,
+        actions,
+        projectId,
+        createdById: userId,
+      },
+      include: RULE_INCLUDE,
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.automationRule.findMany({
+      where: { projectId },
+      include: {
+        ...RULE_INCLUDE,
+        _count: { select: { executions: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(projectId: string, ruleId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const rule = await this.prisma.automationRule.findFirst({
+      where: { id: ruleId, projectId },
+      include: RULE_INCLUDE,
+    });
+
+    if (!rule) throw new NotFoundException('Automation rule not found');
+
+    return rule;
+  }
+
+  /**
+   * Changing the trigger drops the previous trigger's options unless new
+   * ones are sent.
+   */
+  async update(
+    projectId: string,
+    ruleId: string,
+    userId: string,
+    dto: UpdateAutomationRuleDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const rule = await this.findRuleInProject(projectId, ruleId);
+
+    const trigger = dto.trigger ?? rule.trigger;
+    const keepOptions = trigger === rule.trigger;
+    const triggerStatusId =
+      dto.triggerStatusId !== undefined
+        ? dto.triggerStatusId
+        : keepOptions
+          ? rule.triggerStatusId
+          : null;
+    const triggerField =
+      dto.triggerField !== undefined
+        ? dto.triggerField
+        : keepOptions
+          ? rule.triggerField
+          : null;
+
+    await this.validateTrigger(
+      projectId,
+      trigger,
+      triggerStatusId,
+      triggerField,
+    );
+
+    if (dto.conditions) {
+      await this.validateConditions(projectId, userId, dto.conditions);
+    }
+
+    return this.prisma.automationRule.update({
+      where: { id: ruleId },
+      data: {
+        name: dto.name,
+        enabled: dto.enabled,
+        trigger,
+        triggerStatusId,
+        triggerField,
+        conditions: dto.conditions,
+        actions: dto.actions
+          ? await this.validateActions(projectId, dto.actions)
+          : undefined,
+      },
+      include: RULE_INCLUDE,
+    });
+  }
+
+  async remove(projectId: string, ruleId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findRuleInProject(projectId, ruleId);
+
+    await this.prisma.automationRule.delete({ where: { id: ruleId } });
+
+    return { message: 'Automation rule deleted successfully' };
+  }
+
+  /** The rule's execution log, newest first. */
+  async findExecutions(
+    projectId: string,
+    ruleId: string,
+    userId: string,
+    query: PaginationQueryDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findRuleInProject(projectId, ruleId);
+
+    const executions = await this.prisma.automationExecution.findMany({
+      where: { ruleId },
+      include: { ticket: { select: { id: true, number: true, title: true } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(executions, query);
+  }
+
+  /** Evaluates the rule against a ticket without changing anything. */
+  async dryRun(
+    projectId: string,
+    ruleId: string,
+    userId: string,
+    ticketId: string,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const rule = await this.findRuleInProject(projectId, ruleId);
+
+    return this.automationService.preview(rule, ticketId);
+  }
+
+  private async validateTrigger(
+    projectId: string,
+    trigger: AutomationTrigger,
+    triggerStatusId: string | null,
+    triggerField: string | null,
+  ) {
+    if (triggerStatusId && trigger !== AutomationTrigger.TICKET_MOVED) {
+      throw new BadRequestException(
+        'triggerStatusId only applies to TICKET_MOVED rules',
+      );
+    }
+
+    if (triggerField && trigger !== AutomationTrigger.FIELD_CHANGED) {
+      throw new BadRequestException(
+        'triggerField only applies to FIELD_CHANGED rules',
+      );
+    }
+
+    if (triggerStatusId) {
+      await this.validateStatusInProject(projectId, triggerStatusId);
+    }
+
+    if (triggerField?.startsWith('cf.')) {
+      const field = await this.prisma.customField.findUnique({
+        where: { projectId_key: { projectId, key: triggerField.slice(3) } },
+      });
+
+      if (!field) {
+        throw new BadRequestException(`Unknown custom field: ${triggerField}`);
+      }
+    }
+  }
+
+  /** Rejects queries the search endpoint would reject. */
+  private async validateConditions(
+    projectId: string,
+    userId: string,
+    conditions: string | null,
+  ) {
+    if (!conditions) return;
+
+    compileTicketQuery(parseTicketQuery(conditions), {
+      userId,
+      now: new Date(),
+      customFields: await this.customFieldsService.findDefinitions(projectId),
+    });
+  }
+
+  /** Checks each action and keeps only the fields its type uses. */
+  private async validateActions(
+    projectId: string,
+    actions: AutomationActionDto[],
+  ): Promise<Prisma.InputJsonValue> {
+    const stored: Record<string, unknown>[] = [];
+
+    for (const action of actions) {
+      switch (action.type) {
+        case 'SET_FIELD':
+          this.automationService.resolveFieldValue(
+            action.field!,
+            action.value,
+            new Date(),
+          );
+          stored.push({
+            type: action.type,
+            field: action.field,
+            value: action.value,
+          });
+          break;
+
+        case 'ASSIGN':
+          if (action.assigneeId) {
+            await this.validateMember(projectId, action.assigneeId);
+          }
+          stored.push({ type: action.type, assigneeId: action.assigneeId });
+          break;
+
+        case 'ADD_COMMENT':
+          stored.push({ type: action.type, body: action.body });
+          break;
+
+        case 'MOVE':
+          await this.validateStatusInProject(projectId, action.statusId!);
+          stored.push({ type: action.type, statusId: action.statusId });
+          break;
+
+        case 'NOTIFY':
+          if (!action.recipients?.length && !action.userIds?.length) {
+            throw new BadRequestException(
+              'NOTIFY actions need recipients or userIds',
+            );
+          }
+          for (const id of new Set(action.userIds ?? [])) {
+            await this.validateMember(projectId, id);
+          }
+          stored.push({
+            type: action.type,
+            recipients: action.recipients ?? [],
+            userIds: action.userIds ?? [],
+            message: action.message,
+          });
+          break;
+      }
+    }
+
+    return stored as Prisma.InputJsonValue;
+  }
+
+  private async validateStatusInProject(projectId: string, statusId: string) {
+    const status = await this.prisma.status.findFirst({
+      where: { id: statusId, board: { projectId } },
+    });
+
+    if (!status) {
+      throw new NotFoundException('Status not found in this project');
+    }
+  }
+
+  private async validateMember(projectId: string, userId: string) {
+    const member = await this.prisma.projectMember.findUnique({
+      where: { userId_projectId: { userId, projectId } },
+    });
+
+    if (!member) {
+      throw new BadRequestException(
+        `User ${userId} is not a member of this project`,
+      );
+    }
+  }
+
+  private async findRuleInProject(projectId: string, ruleId: string) {
+    const rule = await this.prisma.automationRule.findFirst({
+      where: { id: ruleId, projectId },
+    });
+
+    if (!rule) throw new NotFoundException('Automation rule not found');
+
+    return rule;
+  }
+}
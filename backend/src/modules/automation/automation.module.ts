@@ -0,0 +1,26 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { AutomationService } from './automation.service';
+import { AutomationRulesService } from './automation-rules.service';
+import { AutomationRulesController } from './automation-rules.controller';
+import { ActivityModule } from '../activity/activity.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { WatchersModule } from '../watchers/watchers.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { TransitionsModule } from '../transitions/transitions.module';
+import { TicketsModule } from '../tickets/tickets.module';
+
+@Module({
+  imports: [
+    ActivityModule,
+    NotificationsModule,
+    WatchersModule,
+    CustomFieldsModule,
+    TransitionsModule,
+    // Tickets dispatch to automation, and automation moves place tickets
+    forwardRef(() => TicketsModule),
+  ],
+  controllers: [AutomationRulesController],
+  providers: [AutomationService, AutomationRulesService],
+  exports: [AutomationService],
+})
+export class AutomationModule {}
@@ -0,0 +1,759 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { isISO8601 } from 'class-validator';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ActivityService,
+  TicketEventInput,
+} from '../activity/activity.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WatchersService } from '../watchers/watchers.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { TransitionsService } from '../transitions/transitions.service';
+import { TicketRanksService } from '../tickets/ticket-ranks.service';
+import { WipLimitsService } from '../tickets/wip-limits.service';
+import { parseTicketQuery } from '../tickets/query/ticket-query.parser';
+import { compileTicketQuery } from '../tickets/query/ticket-query.compiler';
+import {
+  AutomationActionDto,
+  AutomationActionType,
+  SettableField,
+} from './dto/automation-action.dto';
+import {
+  AutomationExecutionStatus,
+  AutomationTrigger,
+  NotificationType,
+  Role,
+  TicketEventType,
+  TicketPriority,
+} from 'src/generated/prisma/enums';
+import { AutomationRule, Prisma, Ticket } from 'src/generated/prisma/client';
+
+/** Rules triggered by other rules' actions stop this many levels deep. */
+const MAX_CHAIN_DEPTH = 5;
+
+const RELATIVE_DUE_DATE = /^\+(\d+)([hdw])$/;
+const ABSOLUTE_DUE_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Something that happened to a ticket, as rule triggers see it. */
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  /** TICKET_MOVED: the column the ticket moved into. */
+  statusId?: string;
+  /** FIELD_CHANGED: the field as named in ticket history. */
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  /** COMMENT_ADDED */
+  commentId?: string;
+  /** DUE_DATE_PASSED */
+  dueDate?: string;
+}
+
+export interface AutomationActionResult {
+  type: AutomationActionType;
+  result: 'applied' | 'unchanged' | 'failed' | 'skipped';
+  message?: string;
+}
+
+interface ActionOutcome {
+  changed: boolean;
+  message: string;
+  ticket: Ticket;
+  events: TicketEventInput[];
+}
+
+/** Rules that already fired on a ticket while handling one user change. */
+interface Chain {
+  depth: number;
+  fired: Set<string>;
+}
+
+/**
+ * Runs project automation rules. Services report what they changed with
+ * `dispatch` once their transaction has committed; each matching rule then
+ * runs its actions in a transaction of its own, and the changes those
+ * actions make can trigger further rules.
+ */
+@Injectable()
+export class AutomationService {
+  private readonly logger = new Logger(AutomationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly activityService: ActivityService,
+    private readonly notificationsService: NotificationsService,
+    private readonly watchersService: WatchersService,
+    private readonly customFieldsService: CustomFieldsService,
+    private readonly transitionsService: TransitionsService,
+    private readonly ticketRanksService: TicketRanksService,
+    private readonly wipLimitsService: WipLimitsService,
+  ) {}
+
+  /**
+   * Runs the rules triggered by a committed change in the background. The
+   * caller's response doesn't wait, and a failing rule never fails it.
+   */
+  dispatch(
+    projectId: string,
+    ticketId: string,
+    actorId: string,
+    events: TicketEventInput[],
+  ): void {
+    const automationEvents = toAutomationEvents(events);
+    if (automationEvents.length === 0) return;
+
+    void this.handle(projectId, ticketId, actorId, automationEvents, {
+      depth: 0,
+      fired: new Set(),
+    }).catch((err: Error) =>
+      this.logger.error(
+        `Automation failed for ticket ${ticketId}: ${err.message}`,
+      ),
+    );
+  }
+
+  /** Fires DUE_DATE_PASSED rules for due dates that passed since the last run. */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async fireDueDateRules() {
+    const rules = await this.prisma.automationRule.findMany({
+      where: { enabled: true, trigger: AutomationTrigger.DUE_DATE_PASSED },
+    });
+
+    for (const rule of rules) {
+      const now = new Date();
+      const since = rule.dueDateCheckedAt ?? rule.createdAt;
+
+      // Claim the window so another instance doesn't fire it too
+      const { count } = await this.prisma.automationRule.updateMany({
+        where: { id: rule.id, dueDateCheckedAt: rule.dueDateCheckedAt },
+        data: { dueDateCheckedAt: now },
+      });
+      if (count === 0) continue;
+
+      const tickets = await this.prisma.ticket.findMany({
+        where: {
+          projectId: rule.projectId,
+          deletedAt: null,
+          dueDate: { gt: since, lte: now },
+          status: { isDone: false },
+        },
+        select: { id: true, dueDate: true },
+        orderBy: { dueDate: 'asc' },
+      });
+
+      for (const ticket of tickets) {
+        await this.runRule(
+          rule,
+          ticket.id,
+          rule.createdById,
+          {
+            trigger: AutomationTrigger.DUE_DATE_PASSED,
+            dueDate: ticket.dueDate!.toISOString(),
+          },
+          { depth: 0, fired: new Set() },
+        ).catch((err: Error) =>
+          this.logger.error(
+            `Automation rule ${rule.id} failed for ticket ${ticket.id}: ${err.message}`,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether the ticket matches the rule's conditions and what each action
+   * would do to it, without writing anything.
+   */
+  async preview(rule: AutomationRule, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId: rule.projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const conditionsMatch = await this.conditionsMatch(
+      rule,
+      ticket.id,
+      rule.createdById,
+    );
+
+    const results: AutomationActionResult[] = [];
+    await this.applyActions(this.prisma, rule, ticket, true, results).catch(
+      (err: Error) => this.recordFailure(rule, results, err),
+    );
+
+    return { ruleId: rule.id, ticketId, conditionsMatch, results };
+  }
+
+  /**
+   * The stored value for a SET_FIELD action. Relative due dates count from
+   * `now`. Throws on a value that doesn't fit the field.
+   */
+  resolveFieldValue(field: SettableField, value: unknown, now: Date) {
+    switch (field) {
+      case 'priority':
+        if (!Object.values(TicketPriority).includes(value as TicketPriority)) {
+          throw new BadRequestException(
+            `priority must be one of: ${Object.values(TicketPriority).join(', ')}`,
+          );
+        }
+        return value as TicketPriority;
+
+      case 'storyPoints':
+        if (value === null) return null;
+        if (typeof value !== 'number' || value < 0 || value > 1000) {
+          throw new BadRequestException(
+            'storyPoints must be a number between 0 and 1000, or null',
+          );
+        }
+        return value;
+
+      case 'dueDate': {
+        if (value === null) return null;
+
+        const relative =
+          typeof value === 'string' ? RELATIVE_DUE_DATE.exec(value) : null;
+        if (relative) {
+          const date = new Date(
+            now.getTime() + Number(relative[1]) * UNIT_MS[relative[2]],
+          );
+          if (isNaN(date.getTime()) || date.getUTCFullYear() > 9999) {
+            throw new BadRequestException(
+              'dueDate offset is too far in the future',
+            );
+          }
+          return date;
+        }
+
+        // A date or date-time that exists on the calendar
+        const date =
+          typeof value === 'string' &&
+          ABSOLUTE_DUE_DATE.test(value) &&
+          isISO8601(value, { strict: true, strictSeparator: true })
+            ? new Date(value)
+            : null;
+        if (!date || isNaN(date.getTime())) {
+          throw new BadRequestException(
+            'dueDate must be an ISO date, a relative date like +3d, or null',
+          );
+        }
+        return date;
+      }
+    }
+  }
+
+  private async handle(
+    projectId: string,
+    ticketId: string,
+    actorId: string,
+    events: AutomationEvent[],
+    chain: Chain,
+  ) {
+    const rules = await this.prisma.automationRule.findMany({
+      where: {
+        projectId,
+        enabled: true,
+        trigger: { in: [...new Set(events.map((event) => event.trigger))] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // One change can produce several events; a rule fires once for them
+    for (const rule of rules) {
+      const event = events.find((e) => this.triggers(rule, e));
+      if (event) await this.runRule(rule, ticketId, actorId, event, chain);
+    }
+  }
+
+  private triggers(rule: AutomationRule, event: AutomationEvent) {
+    if (rule.trigger !== event.trigger) return false;
+
+    switch (rule.trigger) {
+      case AutomationTrigger.TICKET_MOVED:
+        return !rule.triggerStatusId || rule.triggerStatusId === event.statusId;
+      case AutomationTrigger.FIELD_CHANGED:
+        return !rule.triggerField || rule.triggerField === event.field;
+      default:
+        return true;
+    }
+  }
+
+  private async runRule(
+    rule: AutomationRule,
+    ticketId: string,
+    actorId: string,
+    event: AutomationEvent,
+    chain: Chain,
+  ) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, deletedAt: null },
+    });
+
+    if (!ticket) return;
+
+    const results: AutomationActionResult[] = [];
+    let emitted: TicketEventInput[] = [];
+
+    try {
+      if (!(await this.conditionsMatch(rule, ticketId, actorId))) return;
+
+      const key = `${rule.id}:${ticketId}`;
+
+      if (chain.fired.has(key) || chain.depth >= MAX_CHAIN_DEPTH) {
+        await this.log(this.prisma, rule, ticketId, event, {
+          status: AutomationExecutionStatus.LOOP_PREVENTED,
+          error: chain.fired.has(key)
+            ? 'The rule already ran on this ticket for the same change'
+            : `More than ${MAX_CHAIN_DEPTH} rules triggered each other`,
+        });
+        return;
+      }
+
+      chain.fired.add(key);
+
+      await this.prisma.$transaction(async (tx) => {
+        emitted = await this.applyActions(tx, rule, ticket, false, results);
+
+        await this.log(tx, rule, ticketId, event, {
+          status: AutomationExecutionStatus.SUCCESS,
+          results,
+        });
+      });
+    } catch (err) {
+      this.recordFailure(rule, results, err as Error);
+
+      // Nothing the actions wrote was kept
+      await this.log(this.prisma, rule, ticketId, event, {
+        status: AutomationExecutionStatus.FAILED,
+        results,
+        error: (err as Error).message,
+      });
+      return;
+    }
+
+    const next = toAutomationEvents(emitted);
+    if (next.length === 0) return;
+
+    await this.handle(rule.projectId, ticketId, rule.createdById, next, {
+      depth: chain.depth + 1,
+      fired: chain.fired,
+    });
+  }
+
+  /** The rule's query, run against just this ticket. */
+  private async conditionsMatch(
+    rule: AutomationRule,
+    ticketId: string,
+    actorId: string,
+  ) {
+    if (!rule.conditions) return true;
+
+    const where = compileTicketQuery(parseTicketQuery(rule.conditions), {
+      userId: actorId,
+      now: new Date(),
+      customFields: await this.customFieldsService.findDefinitions(
+        rule.projectId,
+      ),
+    });
+
+    const count = await this.prisma.ticket.count({
+      where: { AND: [{ id: ticketId }, where] },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Runs the actions in order, each seeing the ticket as the previous ones
+   * left it, and pushes one result per action. With `dryRun` nothing is
+   * written. Throws on the first action that can't be carried out.
+   */
+  private async applyActions(
+    client: Prisma.TransactionClient,
+    rule: AutomationRule,
+    ticket: Ticket,
+    dryRun: boolean,
+    results: AutomationActionResult[],
+  ): Promise<TicketEventInput[]> {
+    const member = await client.projectMember.findUnique({
+      where: {
+        userId_projectId: {
+          userId: rule.createdById,
+          projectId: rule.projectId,
+        },
+      },
+    });
+
+    if (!member) {
+      throw new ForbiddenException(
+        "The rule's creator is no longer a member of this project",
+      );
+    }
+
+    const actions = rule.actions as unknown as AutomationActionDto[];
+    const events: TicketEventInput[] = [];
+    let current = ticket;
+
+    for (const action of actions) {
+      const outcome = await this.applyAction(
+        client,
+        rule,
+        member.role,
+        current,
+        action,
+        dryRun,
+      );
+
+      results.push({
+        type: action.type,
+        result: outcome.changed ? 'applied' : 'unchanged',
+        message: outcome.message,
+      });
+      events.push(...outcome.events);
+      current = outcome.ticket;
+    }
+
+    return events;
+  }
+
+  private async applyAction(
+    client: Prisma.TransactionClient,
+    rule: AutomationRule,
+    role: Role,
+    ticket: Ticket,
+    action: AutomationActionDto,
+    dryRun: boolean,
+  ): Promise<ActionOutcome> {
+    const actorId = rule.createdById;
+    const label = `#${ticket.number} "${ticket.title}"`;
+
+    switch (action.type) {
+      case 'SET_FIELD':
+      case 'ASSIGN': {
+        const data =
+          action.type === 'ASSIGN'
+            ? { assigneeId: action.assigneeId ?? null }
+            : {
+                [action.field!]: this.resolveFieldValue(
+                  action.field!,
+                  action.value,
+                  new Date(),
+                ),
+              };
+        const [field, value] = Object.entries(data)[0] as [string, unknown];
+        const events = this.activityService.diff(ticket, data);
+        const message = `${field} set to ${value instanceof Date ? value.toISOString() : String(value)}`;
+
+        if (action.type === 'ASSIGN' && action.assigneeId) {
+          await this.assertMember(client, rule.projectId, action.assigneeId);
+        }
+
+        if (events.length === 0) {
+          return { changed: false, message, ticket, events };
+        }
+
+        if (dryRun) {
+          return {
+            changed: true,
+            message,
+            ticket: { ...ticket, ...data },
+            events,
+          };
+        }
+
+        const updated = await client.ticket.update({
+          where: { id: ticket.id },
+          data: { ...data, version: { increment: 1 } },
+        });
+        await this.activityService.record(client, ticket.id, actorId, events);
+
+        if (action.type === 'ASSIGN' && updated.assigneeId) {
+          await this.watchersService.watch(client, ticket.id, [
+            updated.assigneeId,
+          ]);
+          await this.notificationsService.notify(client, [updated.assigneeId], {
+            type: NotificationType.TICKET_ASSIGNED,
+            message: `You were assigned to ${label} by automation "${rule.name}"`,
+            actorId,
+            ticketId: ticket.id,
+          });
+        }
+
+        await this.notificationsService.notifyWatchers(
+          client,
+          ticket.id,
+          {
+            type: NotificationType.TICKET_UPDATED,
+            message: `${label} was updated by automation "${rule.name}": ${field}`,
+            actorId,
+          },
+          updated.assigneeId ? [updated.assigneeId] : [],
+        );
+
+        return { changed: true, message, ticket: updated, events };
+      }
+
+      case 'ADD_COMMENT': {
+        const message = 'Comment added';
+
+        if (dryRun) return { changed: true, message, ticket, events: [] };
+
+        const comment = await client.comment.create({
+          data: { body: action.body!, ticketId: ticket.id, authorId: actorId },
+        });
+        const events = [
+          {
+            type: TicketEventType.COMMENT_ADDED,
+            newValue: comment.body,
+            commentId: comment.id,
+          },
+        ];
+
+        await this.activityService.record(client, ticket.id, actorId, events);
+        await this.notificationsService.notifyWatchers(client, ticket.id, {
+          type: NotificationType.COMMENT_ADDED,
+          message: `New comment on ${label} by automation "${rule.name}"`,
+          actorId,
+        });
+
+        return { changed: true, message, ticket, events };
+      }
+
+      case 'MOVE': {
+        const status = await client.status.findFirst({
+          where: { id: action.statusId, board: { projectId: rule.projectId } },
+        });
+
+        if (!status) throw new NotFoundException('Target status not found');
+
+        const message = `Moved to ${status.name}`;
+
+        if (ticket.statusId === status.id) {
+          return { changed: false, message, ticket, events: [] };
+        }
+
+        await this.transitionsService.assertCanMove(
+          client,
+          ticket,
+          status.id,
+          role,
+        );
+
+        const events = [
+          {
+            type: TicketEventType.MOVED,
+            field: 'statusId',
+            oldValue: ticket.statusId,
+            newValue: status.id,
+          },
+        ];
+
+        // A full column on a hard-limit board fails the action, as it would
+        // a user's move; a dry run checks without taking the lock
+        if (!dryRun)
+          await this.ticketRanksService.lockColumn(client, status.id);
+        await this.wipLimitsService.enforce(client, status.id);
+
+        if (dryRun) {
+          return {
+            changed: true,
+            message,
+            ticket: { ...ticket, statusId: status.id },
+            events,
+          };
+        }
+
+        const moved = await client.ticket.update({
+          where: { id: ticket.id },
+          data: {
+            statusId: status.id,
+            rank: await this.ticketRanksService.rankAtEnd(client, status.id),
+            version: { increment: 1 },
+          },
+        });
+
+        await this.activityService.record(client, ticket.id, actorId, events);
+        await this.notificationsService.notifyWatchers(client, ticket.id, {
+          type: NotificationType.TICKET_MOVED,
+          message: `${label} was moved to ${status.name} by automation "${rule.name}"`,
+          actorId,
+        });
+
+        return { changed: true, message, ticket: moved, events };
+      }
+
+      case 'NOTIFY': {
+        const recipients = await this.findRecipients(
+          client,
+          rule.projectId,
+          ticket,
+          action,
+        );
+        const message = `Notified ${recipients.length} user(s)`;
+
+        if (!dryRun) {
+          await this.notificationsService.notify(client, recipients, {
+            type: NotificationType.AUTOMATION,
+            message: action.message!,
+            actorId,
+            ticketId: ticket.id,
+          });
+        }
+
+        return {
+          changed: recipients.length > 0,
+          message,
+          ticket,
+          events: [],
+        };
+      }
+    }
+  }
+
+  /**
+   * Project members among the action's recipients. The rule's creator is
+   * the actor, so they are never notified by their own rules.
+   */
+  private async findRecipients(
+    client: Prisma.TransactionClient,
+    projectId: string,
+    ticket: Ticket,
+    action: AutomationActionDto,
+  ) {
+    const roles = action.recipients ?? [];
+    const watchers = roles.includes('watchers')
+      ? await client.ticketWatcher.findMany({
+          where: { ticketId: ticket.id },
+          select: { userId: true },
+        })
+      : [];
+
+    const candidates = [
+      ...(roles.includes('assignee') && ticket.assigneeId
+        ? [ticket.assigneeId]
+        : []),
+      ...(roles.includes('reporter') ? [ticket.reporterId] : []),
+      ...watchers.map((w) => w.userId),
+      ...(action.userIds ?? []),
+    ];
+
+    const members = await client.projectMember.findMany({
+      where: { projectId, userId: { in: candidates } },
+      select: { userId: true },
+    });
+
+    return [...new Set(members.map((m) => m.userId))];
+  }
+
+  private async assertMember(
+    client: Prisma.TransactionClient,
+    projectId: string,
+    userId: string,
+  ) {
+    const member = await client.projectMember.findUnique({
+      where: { userId_projectId: { userId, projectId } },
+    });
+
+    if (!member) {
+      throw new BadRequestException(
+        'The assignee is not a member of this project',
+      );
+    }
+  }
+
+  /** Marks the action that threw as failed and the ones after it skipped. */
+  private recordFailure(
+    rule: AutomationRule,
+    results: AutomationActionResult[],
+    err: Error,
+  ) {
+    const actions = rule.actions as unknown as AutomationActionDto[];
+    if (results.length >= actions.length) return;
+
+    results.push(
+      {
+        type: actions[results.length].type,
+        result: 'failed',
+        message: err.message,
+      },
+      ...actions
+        .slice(results.length + 1)
+        .map((action) => ({ type: action.type, result: 'skipped' as const })),
+    );
+  }
+
+  private async log(
+    client: Prisma.TransactionClient,
+    rule: AutomationRule,
+    ticketId: string,
+    { trigger, ...details }: AutomationEvent,
+    execution: {
+      status: AutomationExecutionStatus;
+      results?: AutomationActionResult[];
+      error?: string;
+    },
+  ) {
+    await client.automationExecution.create({
+      data: {
+        ruleId: rule.id,
+        ticketId,
+        trigger,
+        // Round-trip so dates in changed values are stored as ISO strings
+        event: JSON.parse(JSON.stringify(details)) as Prisma.InputJsonValue,
+        results: (execution.results ?? []) as unknown as Prisma.InputJsonValue,
+        status: execution.status,
+        error: execution.error,
+      },
+    });
+  }
+}
+
+/** The history entries of a change, as rule triggers. */
+export function toAutomationEvents(
+  events: TicketEventInput[],
+): AutomationEvent[] {
+  return events.flatMap((event): AutomationEvent[] => {
+    switch (event.type) {
+      case TicketEventType.CREATED:
+        return [{ trigger: AutomationTrigger.TICKET_CREATED }];
+      case TicketEventType.MOVED:
+        return [
+          {
+            trigger: AutomationTrigger.TICKET_MOVED,
+            statusId: event.newValue as string,
+          },
+        ];
+      case TicketEventType.UPDATED:
+        return [
+          {
+            trigger: AutomationTrigger.FIELD_CHANGED,
+            field: event.field,
+            oldValue: event.oldValue,
+            newValue: event.newValue,
+          },
+        ];
+      case TicketEventType.COMMENT_ADDED:
+        return [
+          {
+            trigger: AutomationTrigger.COMMENT_ADDED,
+            commentId: event.commentId,
+          },
+        ];
+      default:
+        return [];
+    }
+  });
+}
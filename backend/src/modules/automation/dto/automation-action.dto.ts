@@ -0,0 +1,99 @@
+import {
+  Allow,
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export const AUTOMATION_ACTIONS = [
+  'SET_FIELD',
+  'ASSIGN',
+  'ADD_COMMENT',
+  'MOVE',
+  'NOTIFY',
+] as const;
+
+export type AutomationActionType = (typeof AUTOMATION_ACTIONS)[number];
+
+export const SETTABLE_FIELDS = ['priority', 'dueDate', 'storyPoints'] as const;
+
+export type SettableField = (typeof SETTABLE_FIELDS)[number];
+
+export const NOTIFY_RECIPIENTS = ['assignee', 'reporter', 'watchers'] as const;
+
+export type NotifyRecipient = (typeof NOTIFY_RECIPIENTS)[number];
+
+/** One step of a rule. Which fields apply depends on `type`. */
+export class AutomationActionDto {
+  @IsIn(AUTOMATION_ACTIONS, {
+    message: `type must be one of: ${AUTOMATION_ACTIONS.join(', ')}`,
+  })
+  type: AutomationActionType;
+
+  /** SET_FIELD: the field to set. */
+  @IsIn(SETTABLE_FIELDS, {
+    message: `field must be one of: ${SETTABLE_FIELDS.join(', ')}`,
+  })
+  @ValidateIf((o: AutomationActionDto) => o.type === 'SET_FIELD')
+  field?: SettableField;
+
+  /**
+   * SET_FIELD: a priority, story points, or a due date given as an ISO date
+   * or as `+3d` / `+12h` / `+1w` from when the rule runs. `null` clears
+   * `dueDate` and `storyPoints`. Checked against `field` by the service.
+   */
+  @Allow()
+  value?: unknown;
+
+  /** ASSIGN: a project member, or `null` to unassign. */
+  @IsUUID()
+  @ValidateIf(
+    (o: AutomationActionDto) => o.type === 'ASSIGN' && o.assigneeId !== null,
+  )
+  assigneeId?: string | null;
+
+  /** ADD_COMMENT: posted as the rule's creator. */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  @ValidateIf((o: AutomationActionDto) => o.type === 'ADD_COMMENT')
+  body?: string;
+
+  /** MOVE: the target column; the ticket goes to the bottom. */
+  @IsUUID()
+  @ValidateIf((o: AutomationActionDto) => o.type === 'MOVE')
+  statusId?: string;
+
+  /** NOTIFY: who gets the notification, besides `userIds`. */
+  @IsArray()
+  @IsIn(NOTIFY_RECIPIENTS, {
+    each: true,
+    message: `recipients must be any of: ${NOTIFY_RECIPIENTS.join(', ')}`,
+  })
+  @ValidateIf(
+    (o: AutomationActionDto) =>
+      o.type === 'NOTIFY' && o.recipients !== undefined,
+  )
+  recipients?: NotifyRecipient[];
+
+  /** NOTIFY: specific project members to notify. */
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('all', { each: true })
+  @ValidateIf(
+    (o: AutomationActionDto) => o.type === 'NOTIFY' && o.userIds !== undefined,
+  )
+  userIds?: string[];
+
+  /** NOTIFY: the notification text. */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  @ValidateIf((o: AutomationActionDto) => o.type === 'NOTIFY')
+  message?: string;
+}
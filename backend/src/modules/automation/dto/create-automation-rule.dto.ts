@@ -0,0 +1,76 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { AutomationTrigger } from 'src/generated/prisma/enums';
+import { AutomationActionDto } from './automation-action.dto';
+
+/** Fields a FIELD_CHANGED rule can watch, named as in ticket history. */
+export const TRIGGER_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'priority',
+  'assigneeId',
+  'dueDate',
+  'storyPoints',
+  'originalEstimate',
+  'parentId',
+  'labelId',
+] as const;
+
+export const TRIGGER_FIELD_PATTERN = new RegExp(
+  `^(${TRIGGER_FIELDS.join('|')}|cf\\.[a-z][a-z0-9_]{0,39})$`,
+);
+
+export const MAX_AUTOMATION_ACTIONS = 10;
+
+export class CreateAutomationRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @IsEnum(AutomationTrigger)
+  trigger: AutomationTrigger;
+
+  /** TICKET_MOVED only: fire only for moves into this column. */
+  @IsUUID()
+  @IsOptional()
+  triggerStatusId?: string;
+
+  /** FIELD_CHANGED only: fire only when this field changes. */
+  @Matches(TRIGGER_FIELD_PATTERN, {
+    message: `triggerField must be one of ${TRIGGER_FIELDS.join(', ')} or cf.<key>`,
+  })
+  @IsOptional()
+  triggerField?: string;
+
+  /** A ticket query, as in `GET /tickets?q=`, the ticket must match. */
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  conditions?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_AUTOMATION_ACTIONS)
+  @ValidateNested({ each: true })
+  @Type(() => AutomationActionDto)
+  actions: AutomationActionDto[];
+}
@@ -0,0 +1,65 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { AutomationTrigger } from 'src/generated/prisma/enums';
+import { AutomationActionDto } from './automation-action.dto';
+import {
+  MAX_AUTOMATION_ACTIONS,
+  TRIGGER_FIELDS,
+  TRIGGER_FIELD_PATTERN,
+} from './create-automation-rule.dto';
+
+export class UpdateAutomationRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @IsEnum(AutomationTrigger)
+  @IsOptional()
+  trigger?: AutomationTrigger;
+
+  /** `null` fires on moves into any column. */
+  @IsUUID()
+  @IsOptional()
+  triggerStatusId?: string | null;
+
+  /** `null` fires on changes to any field. */
+  @Matches(TRIGGER_FIELD_PATTERN, {
+    message: `triggerField must be one of ${TRIGGER_FIELDS.join(', ')} or cf.<key>`,
+  })
+  @IsOptional()
+  triggerField?: string | null;
+
+  /** `null` removes the conditions. */
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  conditions?: string | null;
+
+  /** Replaces the whole list. */
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_AUTOMATION_ACTIONS)
+  @ValidateNested({ each: true })
+  @Type(() => AutomationActionDto)
+  @IsOptional()
+  actions?: AutomationActionDto[];
+}
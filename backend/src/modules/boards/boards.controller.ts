@@ -1,5 +1,6 @@
-import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Patch, Body, Param, UseGuards } from '@nestjs/common';
 import { BoardsService } from './boards.service';
+import { UpdateBoardDto } from './dto/update-board.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
@@ -15,4 +16,24 @@ export class BoardsController {
   ) {
     return this.boardsService.getBoardForProject(projectId, user.id);
   }
+
+  @Patch(':projectId/board')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: UpdateBoardDto,
+  ) {
+    return this.boardsService.update(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/sprints/:sprintId/board')
+  getSprintBoard(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+  ) {
+    return this.boardsService.getBoardForProject(projectId, user.id, {
+      sprintId,
+    });
+  }
 }
@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BoardsService } from './boards.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TicketType } from 'src/generated/prisma/enums';
+
+describe('BoardsService', () => {
+  let service: BoardsService;
+
+  const ticket = (
+    number: number,
+    type: TicketType,
+    parent: Record<string, unknown> | null = null,
+  ) => ({
+    id: `ticket-${number}`,
+    number,
+    title: `Ticket ${number}`,
+    type,
+    deletedAt: null,
+    parent,
+  });
+
+  const prisma = {
+    project: { findUnique: jest.fn().mockResolvedValue({ id: 'project-1' }) },
+    projectMember: {
+      findUnique: jest.fn().mockResolvedValue({ role: 'MEMBER' }),
+    },
+    board: { findUnique: jest.fn() },
+  };
+
+  const boardWith = (...tickets: ReturnType<typeof ticket>[]) => ({
+    id: 'board-1',
+    project: { key: 'LUME' },
+    statuses: [
+      {
+        id: 'status-1',
+        wipLimit: null,
+        _count: { tickets: tickets.length },
+        tickets,
+      },
+    ],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BoardsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(BoardsService);
+  });
+
+  describe('getBoardForProject', () => {
+    it("shows a card's epic, even from a subtask", async () => {
+      const epic = ticket(1, TicketType.EPIC);
+      const story = ticket(2, TicketType.STORY, epic);
+      prisma.board.findUnique.mockResolvedValue(
+        boardWith(
+          ticket(3, TicketType.SUBTASK, story),
+          ticket(4, TicketType.STORY, epic),
+          ticket(5, TicketType.SUBTASK, ticket(6, TicketType.TASK)),
+        ),
+      );
+
+      const board = await service.getBoardForProject('project-1', 'user-1');
+      const epics = board!.statuses[0].tickets.map((card) => card.epic);
+
+      const expected = {
+        id: 'ticket-1',
+        number: 1,
+        key: 'LUME-1',
+        title: 'Ticket 1',
+        type: TicketType.EPIC,
+      };
+      expect(epics).toEqual([expected, expected, null]);
+    });
+
+    it('hides an epic behind a deleted ticket', async () => {
+      const epic = ticket(1, TicketType.EPIC);
+      const story = {
+        ...ticket(2, TicketType.STORY, epic),
+        deletedAt: new Date(),
+      };
+      prisma.board.findUnique.mockResolvedValue(
+        boardWith(ticket(3, TicketType.SUBTASK, story)),
+      );
+
+      const board = await service.getBoardForProject('project-1', 'user-1');
+
+      expect(board!.statuses[0].tickets[0].epic).toBeNull();
+    });
+  });
+});
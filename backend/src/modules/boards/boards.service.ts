@@ -1,22 +1,73 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { getProjectMember } from '../../common/helpers/project-access.helper';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role, TicketType } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { UpdateBoardDto } from './dto/update-board.dto';
+import { withTicketKey } from '../tickets/ticket-key.helper';
+
+const ANCESTOR_SELECT = {
+  id: true,
+  number: true,
+  title: true,
+  type: true,
+  deletedAt: true,
+} as const;
+
+type Ancestor = Prisma.TicketGetPayload<{ select: typeof ANCESTOR_SELECT }> & {
+  parent?: Ancestor | null;
+};
+
+/** The nearest epic above a ticket; null if a deleted ticket is in the way. */
+function findEpic(ancestor: Ancestor | null | undefined) {
+  while (ancestor && !ancestor.deletedAt) {
+    if (ancestor.type === TicketType.EPIC) {
+      const { id, number, title, type } = ancestor;
+      return { id, number, title, type };
+    }
+    ancestor = ancestor.parent;
+  }
+  return null;
+}
 
 @Injectable()
 export class BoardsService {
   constructor(private readonly prisma: PrismaService) {}
 
-  async getBoardForProject(projectId: string, userId: string) {
+  async getBoardForProject(
+    projectId: string,
+    userId: string,
+    options: { sprintId?: string } = {},
+  ) {
     await getProjectMember(this.prisma, projectId, userId);
 
-    return this.prisma.board.findUnique({
+    if (options.sprintId) {
+      const sprint = await this.prisma.sprint.findFirst({
+        where: { id: options.sprintId, projectId },
+      });
+
+      if (!sprint) throw new NotFoundException('Sprint not found');
+    }
+
+    const board = await this.prisma.board.findUnique({
       where: { projectId },
       include: {
+        project: { select: { key: true } },
         statuses: {
-          orderBy: { order: 'asc' },
+          orderBy: { rank: 'asc' },
           include: {
+            // Column-wide, even on a sprint board, since that's what the
+            // WIP limit applies to
+            _count: { select: { tickets: { where: { deletedAt: null } } } },
             tickets: {
-              orderBy: { order: 'asc' },
+              where: {
+                deletedAt: null,
+                ...(options.sprintId && { sprintId: options.sprintId }),
+              },
+              orderBy: [{ rank: 'asc' }, { id: 'asc' }],
               include: {
                 assignee: {
                   select: {
@@ -34,8 +85,23 @@ export class BoardsService {
                     lastName: true,
                   },
                 },
+                // Two levels reach the epic from a subtask
+                parent: {
+                  select: {
+                    ...ANCESTOR_SELECT,
+                    parent: { select: ANCESTOR_SELECT },
+                  },
+                },
+                labels: {
+                  select: {
+                    label: { select: { id: true, name: true, color: true } },
+                  },
+                },
                 _count: {
-                  select: { comments: true },
+                  select: {
+                    comments: { where: { deletedAt: null } },
+                    children: { where: { deletedAt: null } },
+                  },
                 },
               },
             },
@@ -43,5 +109,42 @@ export class BoardsService {
         },
       },
     });
+
+    if (!board) return board;
+
+    const { key } = board.project;
+
+    return {
+      ...board,
+      statuses: board.statuses.map(({ _count, ...status }) => ({
+        ...status,
+        wip: {
+          count: _count.tickets,
+          limit: status.wipLimit,
+          exceeded:
+            status.wipLimit !== null && _count.tickets > status.wipLimit,
+        },
+        tickets: status.tickets.map(({ parent, ...ticket }) => {
+          const epic = findEpic(parent);
+          return {
+            ...withTicketKey(key, ticket),
+            epic: epic && withTicketKey(key, epic),
+          };
+        }),
+      })),
+    };
+  }
+
+  async update(projectId: string, userId: string, dto: UpdateBoardDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const board = await this.prisma.board.findUnique({ where: { projectId } });
+    if (!board) throw new NotFoundException('Board not found');
+
+    return this.prisma.board.update({
+      where: { id: board.id },
+      data: dto,
+    });
   }
 }
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { WipLimitMode } from 'src/generated/prisma/enums';
+
+export class UpdateBoardDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  /** `HARD` rejects tickets entering a full column; `SOFT` only warns. */
+  @IsEnum(WipLimitMode)
+  @IsOptional()
+  wipLimitMode?: WipLimitMode;
+}
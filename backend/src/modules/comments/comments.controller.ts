@@ -1,24 +1,41 @@
 import {
   Controller,
+  Get,
   Post,
   Patch,
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { CommentsService } from './comments.service';
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
 
 @Controller({ path: 'projects', version: '1' })
 @UseGuards(JwtAuthGuard)
+@UseInterceptors(ETagInterceptor)
 export class CommentsController {
   constructor(private readonly commentsService: CommentsService) {}
 
+  @Get(':projectId/tickets/:ticketId/comments')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.commentsService.findAll(projectId, ticketId, user.id, query);
+  }
+
   @Post(':projectId/tickets/:ticketId/comments')
   create(
     @CurrentUser() user: { id: string },
@@ -36,6 +53,7 @@ export class CommentsController {
     @Param('ticketId') ticketId: string,
     @Param('commentId') commentId: string,
     @Body() dto: CreateCommentDto,
+    @IfMatch() expectedVersion?: number,
   ) {
     return this.commentsService.update(
       projectId,
@@ -43,6 +61,7 @@ export class CommentsController {
       commentId,
       user.id,
       dto,
+      expectedVersion,
     );
   }
 
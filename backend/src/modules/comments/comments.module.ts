@@ -1,8 +1,18 @@
 import { Module } from '@nestjs/common';
 import { CommentsService } from './comments.service';
 import { CommentsController } from './comments.controller';
+import { ActivityModule } from '../activity/activity.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MentionsModule } from '../mentions/mentions.module';
+import { AutomationModule } from '../automation/automation.module';
 
 @Module({
+  imports: [
+    ActivityModule,
+    NotificationsModule,
+    MentionsModule,
+    AutomationModule,
+  ],
   controllers: [CommentsController],
   providers: [CommentsService],
 })
@@ -6,32 +6,45 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { getProjectMember } from '../../common/helpers/project-access.helper';
-import { Role } from 'src/generated/prisma/enums';
+import { versionConflict } from '../../common/helpers/concurrency.helper';
+import {
+  NotificationType,
+  Role,
+  TicketEventType,
+} from 'src/generated/prisma/enums';
+import { ActivityService } from '../activity/activity.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MentionsService } from '../mentions/mentions.service';
+import { AutomationService } from '../automation/automation.service';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
 
 @Injectable()
 export class CommentsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly activityService: ActivityService,
+    private readonly notificationsService: NotificationsService,
+    private readonly mentionsService: MentionsService,
+    private readonly automationService: AutomationService,
+  ) {}
 
-  async create(
+  async findAll(
     projectId: string,
     ticketId: string,
     userId: string,
-    dto: CreateCommentDto,
+    query: PaginationQueryDto,
   ) {
     await getProjectMember(this.prisma, projectId, userId);
 
     const ticket = await this.prisma.ticket.findFirst({
-      where: { id: ticketId, projectId },
+      where: { id: ticketId, projectId, deletedAt: null },
     });
 
     if (!ticket) throw new NotFoundException('Ticket not found');
 
-    return this.prisma.comment.create({
-      data: {
-        body: dto.body,
-        ticketId,
-        authorId: userId,
-      },
+    const comments = await this.prisma.comment.findMany({
+      where: { ticketId, deletedAt: null },
       include: {
         author: {
           select: {
@@ -41,8 +54,95 @@ export class CommentsService {
             lastName: true,
           },
         },
+        mentions: {
+          select: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+        },
       },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(comments, query);
+  }
+
+  async create(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    dto: CreateCommentDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      const comment = await tx.comment.create({
+        data: {
+          body: dto.body,
+          ticketId,
+          authorId: userId,
+        },
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+
+      await this.activityService.record(tx, ticketId, userId, [
+        {
+          type: TicketEventType.COMMENT_ADDED,
+          newValue: comment.body,
+          commentId: comment.id,
+        },
+      ]);
+
+      const mentioned = await this.mentionsService.sync(tx, {
+        projectId,
+        ticket,
+        commentId: comment.id,
+        actorId: userId,
+        text: comment.body,
+      });
+
+      // Mentioned users already got a more specific notification
+      await this.notificationsService.notifyWatchers(
+        tx,
+        ticketId,
+        {
+          type: NotificationType.COMMENT_ADDED,
+          message: `New comment on #${ticket.number} "${ticket.title}"`,
+          actorId: userId,
+        },
+        mentioned.mentions.map(({ user }) => user.id),
+      );
+
+      return { ...comment, ...mentioned };
     });
+
+    this.automationService.dispatch(projectId, ticketId, userId, [
+      { type: TicketEventType.COMMENT_ADDED, commentId: created.id },
+    ]);
+
+    return created;
   }
 
   async update(
@@ -51,11 +151,18 @@ export class CommentsService {
     commentId: string,
     userId: string,
     dto: CreateCommentDto,
+    expectedVersion?: number,
   ) {
     await getProjectMember(this.prisma, projectId, userId);
 
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
     const comment = await this.prisma.comment.findFirst({
-      where: { id: commentId, ticketId },
+      where: { id: commentId, ticketId, deletedAt: null },
     });
 
     if (!comment) throw new NotFoundException('Comment not found');
@@ -64,19 +171,50 @@ export class CommentsService {
       throw new ForbiddenException('You can only edit your own comments');
     }
 
-    return this.prisma.comment.update({
-      where: { id: commentId },
-      data: { body: dto.body, isEdited: true },
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
+    return this.prisma.$transaction(async (tx) => {
+      // Conditional on the version so a stale edit changes nothing
+      const { count } = await tx.comment.updateMany({
+        where: {
+          id: commentId,
+          ...(expectedVersion !== undefined && { version: expectedVersion }),
+        },
+        data: { body: dto.body, isEdited: true, version: { increment: 1 } },
+      });
+
+      const updated = await tx.comment.findUniqueOrThrow({
+        where: { id: commentId },
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
+      });
+
+      if (count === 0) throw versionConflict(updated);
+
+      await this.activityService.record(tx, ticketId, userId, [
+        {
+          type: TicketEventType.COMMENT_EDITED,
+          oldValue: comment.body,
+          newValue: updated.body,
+          commentId,
+        },
+      ]);
+
+      const mentioned = await this.mentionsService.sync(tx, {
+        projectId,
+        ticket,
+        commentId,
+        actorId: userId,
+        text: updated.body,
+      });
+
+      return { ...updated, ...mentioned };
     });
   }
 
@@ -88,8 +226,14 @@ export class CommentsService {
   ) {
     const member = await getProjectMember(this.prisma, projectId, userId);
 
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
     const comment = await this.prisma.comment.findFirst({
-      where: { id: commentId, ticketId },
+      where: { id: commentId, ticketId, deletedAt: null },
     });
 
     if (!comment) throw new NotFoundException('Comment not found');
@@ -103,7 +247,25 @@ export class CommentsService {
       throw new ForbiddenException('You can only delete your own comments');
     }
 
-    await this.prisma.comment.delete({ where: { id: commentId } });
+    // Soft delete; attachments and mentions are kept until the trash is purged
+    await this.prisma.$transaction(async (tx) => {
+      await tx.comment.update({
+        where: { id: commentId },
+        data: {
+          deletedAt: new Date(),
+          deletedById: userId,
+          version: { increment: 1 },
+        },
+      });
+
+      await this.activityService.record(tx, ticketId, userId, [
+        {
+          type: TicketEventType.COMMENT_DELETED,
+          oldValue: comment.body,
+          commentId,
+        },
+      ]);
+    });
 
     return { message: 'Comment deleted successfully' };
   }
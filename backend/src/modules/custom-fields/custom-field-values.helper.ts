@@ -0,0 +1,56 @@
+import { CustomFieldType } from 'src/generated/prisma/enums';
+
+export interface CustomFieldValueColumns {
+  textValue: string | null;
+  numberValue: number | null;
+  dateValue: Date | null;
+  optionValues: string[];
+  userId: string | null;
+}
+
+type CustomFieldValueRow = CustomFieldValueColumns & {
+  field: { key: string; type: CustomFieldType };
+};
+
+/** Prisma `include` for a ticket's values in the shape `withCustomFieldValues` expects. */
+export const CUSTOM_FIELD_VALUES_INCLUDE = {
+  include: { field: { select: { key: true, type: true } } },
+} as const;
+
+/** The API value for one row: a string, number, ISO date, option list or user id. */
+export function formatCustomFieldValue(
+  type: CustomFieldType,
+  row: CustomFieldValueColumns,
+): unknown {
+  switch (type) {
+    case CustomFieldType.NUMBER:
+      return row.numberValue;
+    case CustomFieldType.DATE:
+      return row.dateValue?.toISOString() ?? null;
+    case CustomFieldType.MULTI_SELECT:
+      return row.optionValues;
+    case CustomFieldType.USER:
+      return row.userId;
+    default:
+      return row.textValue;
+  }
+}
+
+/** Replaces a ticket's value rows with a `{ [key]: value }` map. */
+export function withCustomFieldValues<
+  T extends { customFields: CustomFieldValueRow[] },
+>(
+  ticket: T,
+): Omit<T, 'customFields'> & { customFields: Record<string, unknown> } {
+  const { customFields, ...rest } = ticket;
+
+  return {
+    ...rest,
+    customFields: Object.fromEntries(
+      customFields.map((row) => [
+        row.field.key,
+        formatCustomFieldValue(row.field.type, row),
+      ]),
+    ),
+  };
+}
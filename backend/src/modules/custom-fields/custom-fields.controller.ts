@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { CustomFieldsService } from './custom-fields.service';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  @Post(':projectId/custom-fields')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateCustomFieldDto,
+  ) {
+    return this.customFieldsService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/custom-fields')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.customFieldsService.findAll(projectId, user.id);
+  }
+
+  @Patch(':projectId/custom-fields/:fieldId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('fieldId') fieldId: string,
+    @Body() dto: UpdateCustomFieldDto,
+  ) {
+    return this.customFieldsService.update(projectId, fieldId, user.id, dto);
+  }
+
+  @Delete(':projectId/custom-fields/:fieldId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('fieldId') fieldId: string,
+  ) {
+    return this.customFieldsService.remove(projectId, fieldId, user.id);
+  }
+}
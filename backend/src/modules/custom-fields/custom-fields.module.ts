@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CustomFieldsService } from './custom-fields.service';
+import { CustomFieldsController } from './custom-fields.controller';
+
+@Module({
+  controllers: [CustomFieldsController],
+  providers: [CustomFieldsService],
+  exports: [CustomFieldsService],
+})
+export class CustomFieldsModule {}
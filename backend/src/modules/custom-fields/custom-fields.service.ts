@@ -0,0 +1,432 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { isISO8601, isUUID } from 'class-validator';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import {
+  CustomFieldType,
+  Role,
+  TicketEventType,
+} from 'src/generated/prisma/enums';
+import { CustomField, Prisma } from 'src/generated/prisma/client';
+import { TicketEventInput } from '../activity/activity.service';
+import {
+  CustomFieldValueColumns,
+  formatCustomFieldValue,
+} from './custom-field-values.helper';
+
+const TEXT_VALUE_MAX_LENGTH = 1000;
+
+const SELECT_TYPES: CustomFieldType[] = [
+  CustomFieldType.SINGLE_SELECT,
+  CustomFieldType.MULTI_SELECT,
+];
+
+/** A validated value for one field; `data: null` clears the value. */
+export interface CustomFieldWrite {
+  field: CustomField;
+  data: CustomFieldValueColumns | null;
+}
+
+@Injectable()
+export class CustomFieldsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(projectId: string, userId: string, dto: CreateCustomFieldDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    this.validateDefinition(dto.type, dto);
+    await this.assertKeyAvailable(projectId, dto.key);
+
+    return this.prisma.customField.create({
+      data: {
+        key: dto.key,
+        name: dto.name,
+        type: dto.type,
+        required: dto.required,
+        options: dto.options ? [...new Set(dto.options)] : undefined,
+        minValue: dto.minValue,
+        maxValue: dto.maxValue,
+        projectId,
+      },
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.customField.findMany({
+      where: { projectId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async update(
+    projectId: string,
+    fieldId: string,
+    userId: string,
+    dto: UpdateCustomFieldDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const field = await this.findFieldInProject(projectId, fieldId);
+
+    this.validateDefinition(field.type, {
+      options: dto.options ?? field.options,
+      minValue: dto.minValue === undefined ? field.minValue : dto.minValue,
+      maxValue: dto.maxValue === undefined ? field.maxValue : dto.maxValue,
+    });
+
+    if (dto.key && dto.key !== field.key) {
+      await this.assertKeyAvailable(projectId, dto.key);
+    }
+
+    if (dto.options) {
+      await this.assertRemovedOptionsUnused(field, dto.options);
+    }
+
+    return this.prisma.customField.update({
+      where: { id: fieldId },
+      data: {
+        ...dto,
+        options: dto.options ? [...new Set(dto.options)] : undefined,
+      },
+    });
+  }
+
+  async remove(projectId: string, fieldId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findFieldInProject(projectId, fieldId);
+
+    await this.prisma.customField.delete({ where: { id: fieldId } });
+
+    return { message: 'Custom field deleted successfully' };
+  }
+
+  /** Field definitions for compiling `cf.<key>` search clauses. */
+  findDefinitions(projectId: string) {
+    return this.prisma.customField.findMany({
+      where: { projectId },
+      select: { id: true, key: true, type: true, options: true },
+    });
+  }
+
+  /**
+   * Validates a ticket's `customFields` payload (keyed by field key) against
+   * the project's definitions. On create, required fields must be present;
+   * on update, only the keys sent are touched. All problems are reported
+   * together, in the same `message` array shape as DTO validation errors.
+   */
+  async resolveValues(
+    projectId: string,
+    input: Record<string, unknown> | undefined,
+    mode: 'create' | 'update',
+  ): Promise<CustomFieldWrite[]> {
+    const fields = await this.prisma.customField.findMany({
+      where: { projectId },
+    });
+
+    const values = input ?? {};
+    const errors: Record<string, string[]> = {};
+    const writes: CustomFieldWrite[] = [];
+    const addError = (key: string, message: string) =>
+      (errors[key] ??= []).push(message);
+
+    for (const key of Object.keys(values)) {
+      if (!fields.some((field) => field.key === key)) {
+        addError(key, 'is not a custom field of this project');
+      }
+    }
+
+    for (const field of fields) {
+      const value = values[field.key];
+
+      if (value === undefined && mode === 'update') continue;
+
+      const data =
+        value === undefined || value === null
+          ? null
+          : this.parseValue(field, value, (message) => {
+              addError(field.key, message);
+              return undefined;
+            });
+
+      if (data === undefined) continue;
+
+      if (data === null && field.required) {
+        addError(field.key, 'is required');
+        continue;
+      }
+
+      if (value !== undefined || data !== null) writes.push({ field, data });
+    }
+
+    await this.assertUsersAreMembers(projectId, writes, addError);
+
+    if (Object.keys(errors).length > 0) {
+      throw new BadRequestException({
+        message: Object.entries(errors).flatMap(([key, messages]) =>
+          messages.map((message) => `customFields.${key} ${message}`),
+        ),
+        error: 'Bad Request',
+        details: { customFields: errors },
+      });
+    }
+
+    return writes;
+  }
+
+  /**
+   * Writes resolved values for a ticket and returns history events for the
+   * ones that actually changed.
+   */
+  async applyValues(
+    client: Prisma.TransactionClient,
+    ticketId: string,
+    writes: CustomFieldWrite[],
+  ): Promise<TicketEventInput[]> {
+    if (writes.length === 0) return [];
+
+    const existing = await client.customFieldValue.findMany({
+      where: { ticketId, fieldId: { in: writes.map(({ field }) => field.id) } },
+    });
+
+    const events: TicketEventInput[] = [];
+
+    for (const { field, data } of writes) {
+      const before = existing.find((row) => row.fieldId === field.id);
+
+      if (data) {
+        await client.customFieldValue.upsert({
+          where: { ticketId_fieldId: { ticketId, fieldId: field.id } },
+          create: { ticketId, fieldId: field.id, ...data },
+          update: data,
+        });
+      } else if (before) {
+        await client.customFieldValue.delete({
+          where: { ticketId_fieldId: { ticketId, fieldId: field.id } },
+        });
+      }
+
+      const oldValue = before
+        ? formatCustomFieldValue(field.type, before)
+        : null;
+      const newValue = data ? formatCustomFieldValue(field.type, data) : null;
+
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        events.push({
+          type: TicketEventType.UPDATED,
+          field: `cf.${field.key}`,
+          oldValue,
+          newValue,
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Converts one submitted value into its typed column. Returns `undefined`
+   * after reporting an error, or `null` for an empty multi-select.
+   */
+  private parseValue(
+    field: CustomField,
+    value: unknown,
+    fail: (message: string) => undefined,
+  ): CustomFieldValueColumns | null | undefined {
+    const columns: CustomFieldValueColumns = {
+      textValue: null,
+      numberValue: null,
+      dateValue: null,
+      optionValues: [],
+      userId: null,
+    };
+
+    switch (field.type) {
+      case CustomFieldType.TEXT:
+        if (typeof value !== 'string' || value.trim() === '') {
+          return fail('must be a non-empty string');
+        }
+        if (value.length > TEXT_VALUE_MAX_LENGTH) {
+          return fail(
+            `must be shorter than or equal to ${TEXT_VALUE_MAX_LENGTH} characters`,
+          );
+        }
+        return { ...columns, textValue: value };
+
+      case CustomFieldType.NUMBER:
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return fail('must be a number');
+        }
+        if (field.minValue !== null && value < field.minValue) {
+          return fail(`must not be less than ${field.minValue}`);
+        }
+        if (field.maxValue !== null && value > field.maxValue) {
+          return fail(`must not be greater than ${field.maxValue}`);
+        }
+        return { ...columns, numberValue: value };
+
+      case CustomFieldType.DATE:
+        // Strict, so impossible dates like 2024-02-31 don't roll over
+        if (
+          typeof value !== 'string' ||
+          !isISO8601(value, { strict: true, strictSeparator: true })
+        ) {
+          return fail('must be a valid ISO 8601 date string');
+        }
+        return { ...columns, dateValue: new Date(value) };
+
+      case CustomFieldType.SINGLE_SELECT:
+        if (typeof value !== 'string' || !field.options.includes(value)) {
+          return fail(`must be one of: ${field.options.join(', ')}`);
+        }
+        return { ...columns, textValue: value };
+
+      case CustomFieldType.MULTI_SELECT: {
+        if (
+          !Array.isArray(value) ||
+          !value.every(
+            (option) =>
+              typeof option === 'string' && field.options.includes(option),
+          )
+        ) {
+          return fail(
+            `must be an array of values from: ${field.options.join(', ')}`,
+          );
+        }
+        const options = [...new Set(value as string[])];
+        return options.length ? { ...columns, optionValues: options } : null;
+      }
+
+      case CustomFieldType.USER:
+        if (typeof value !== 'string' || !isUUID(value)) {
+          return fail('must be a user ID');
+        }
+        return { ...columns, userId: value };
+    }
+  }
+
+  private async assertUsersAreMembers(
+    projectId: string,
+    writes: CustomFieldWrite[],
+    addError: (key: string, message: string) => void,
+  ) {
+    const userWrites = writes.filter(({ data }) => data?.userId);
+    if (userWrites.length === 0) return;
+
+    const members = await this.prisma.projectMember.findMany({
+      where: {
+        projectId,
+        userId: { in: userWrites.map(({ data }) => data!.userId!) },
+      },
+      select: { userId: true },
+    });
+
+    for (const { field, data } of userWrites) {
+      if (!members.some((member) => member.userId === data!.userId)) {
+        addError(field.key, 'must be a member of this project');
+      }
+    }
+  }
+
+  private validateDefinition(
+    type: CustomFieldType,
+    definition: {
+      options?: string[];
+      minValue?: number | null;
+      maxValue?: number | null;
+    },
+  ) {
+    const { options, minValue, maxValue } = definition;
+
+    if (SELECT_TYPES.includes(type)) {
+      if (!options?.length) {
+        throw new BadRequestException(
+          `A ${type} field needs at least one option`,
+        );
+      }
+    } else if (options?.length) {
+      throw new BadRequestException(`A ${type} field cannot have options`);
+    }
+
+    const hasBounds =
+      (minValue !== undefined && minValue !== null) ||
+      (maxValue !== undefined && maxValue !== null);
+
+    if (hasBounds && type !== CustomFieldType.NUMBER) {
+      throw new BadRequestException(
+        'minValue and maxValue only apply to NUMBER fields',
+      );
+    }
+
+    if (
+      typeof minValue === 'number' &&
+      typeof maxValue === 'number' &&
+      minValue > maxValue
+    ) {
+      throw new BadRequestException('minValue must not exceed maxValue');
+    }
+  }
+
+  private async assertRemovedOptionsUnused(
+    field: CustomField,
+    options: string[],
+  ) {
+    const removed = field.options.filter((option) => !options.includes(option));
+    if (removed.length === 0) return;
+
+    const inUse = await this.prisma.customFieldValue.count({
+      where: {
+        fieldId: field.id,
+        OR: [
+          { textValue: { in: removed } },
+          { optionValues: { hasSome: removed } },
+        ],
+      },
+    });
+
+    if (inUse > 0) {
+      throw new ConflictException(
+        `Cannot remove options still set on ${inUse} ticket(s): ${removed.join(', ')}`,
+      );
+    }
+  }
+
+  private async findFieldInProject(projectId: string, fieldId: string) {
+    const field = await this.prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+    });
+
+    if (!field) {
+      throw new NotFoundException('Custom field not found in this project');
+    }
+
+    return field;
+  }
+
+  private async assertKeyAvailable(projectId: string, key: string) {
+    const existing = await this.prisma.customField.findUnique({
+      where: { projectId_key: { projectId, key } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Custom field "${key}" already exists in this project`,
+      );
+    }
+  }
+}
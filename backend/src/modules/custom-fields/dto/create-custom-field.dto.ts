@@ -0,0 +1,53 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsArray,
+  IsNumber,
+  ArrayMaxSize,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { CustomFieldType } from 'src/generated/prisma/enums';
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export class CreateCustomFieldDto {
+  @IsString()
+  @Matches(CUSTOM_FIELD_KEY_PATTERN, {
+    message:
+      'Key must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 40)',
+  })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsEnum(CustomFieldType)
+  type: CustomFieldType;
+
+  @IsBoolean()
+  @IsOptional()
+  required?: boolean;
+
+  /** Required for SINGLE_SELECT / MULTI_SELECT, rejected otherwise. */
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  @IsOptional()
+  options?: string[];
+
+  @IsNumber()
+  @IsOptional()
+  minValue?: number;
+
+  @IsNumber()
+  @IsOptional()
+  maxValue?: number;
+}
@@ -0,0 +1,51 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsNumber,
+  ArrayMaxSize,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { CUSTOM_FIELD_KEY_PATTERN } from './create-custom-field.dto';
+
+/** The type is fixed once created — existing values would not convert. */
+export class UpdateCustomFieldDto {
+  @IsString()
+  @Matches(CUSTOM_FIELD_KEY_PATTERN, {
+    message:
+      'Key must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 40)',
+  })
+  @IsOptional()
+  key?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  required?: boolean;
+
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  @IsOptional()
+  options?: string[];
+
+  /** `null` removes the bound. */
+  @IsNumber()
+  @IsOptional()
+  minValue?: number | null;
+
+  /** `null` removes the bound. */
+  @IsNumber()
+  @IsOptional()
+  maxValue?: number | null;
+}
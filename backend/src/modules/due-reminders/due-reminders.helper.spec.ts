@@ -0,0 +1,51 @@
+import { dueReminder, parseReminderOffsets } from './due-reminders.helper';
+
+describe('due reminders helper', () => {
+  const offsets = parseReminderOffsets(['1h', '1d']);
+  const due = new Date('2026-10-20T12:00:00Z');
+
+  it('parses offsets shortest first with readable labels', () => {
+    expect(parseReminderOffsets(['2d', '90m', '1h'])).toEqual([
+      { ms: 60 * 60_000, label: '1 hour' },
+      { ms: 90 * 60_000, label: '90 minutes' },
+      { ms: 2 * 24 * 60 * 60_000, label: '2 days' },
+    ]);
+    expect(() => parseReminderOffsets(['1w'])).toThrow();
+    expect(() => parseReminderOffsets(['0h'])).toThrow();
+  });
+
+  it('sends nothing before the first reminder or after the due date', () => {
+    expect(
+      dueReminder(due, new Date('2026-10-19T11:59:00Z'), offsets, null),
+    ).toBeNull();
+    expect(
+      dueReminder(due, new Date('2026-10-20T12:00:00Z'), offsets, null),
+    ).toBeNull();
+  });
+
+  it('sends each reminder once', () => {
+    const dayBefore = new Date('2026-10-19T12:00:00Z');
+    expect(dueReminder(due, dayBefore, offsets, null)?.label).toBe('1 day');
+
+    const later = new Date('2026-10-20T09:00:00Z');
+    expect(dueReminder(due, later, offsets, dayBefore)).toBeNull();
+
+    const hourBefore = new Date('2026-10-20T11:00:00Z');
+    expect(dueReminder(due, hourBefore, offsets, dayBefore)?.label).toBe(
+      '1 hour',
+    );
+    expect(dueReminder(due, hourBefore, offsets, hourBefore)).toBeNull();
+  });
+
+  it('collapses missed reminders into the latest', () => {
+    const now = new Date('2026-10-20T11:30:00Z');
+    expect(dueReminder(due, now, offsets, null)?.label).toBe('1 hour');
+  });
+
+  it('reminds again when the due date moves later', () => {
+    const sentAt = new Date('2026-10-20T11:00:00Z');
+    const newDue = new Date('2026-10-23T12:00:00Z');
+    const now = new Date('2026-10-22T12:00:00Z');
+    expect(dueReminder(newDue, now, offsets, sentAt)?.label).toBe('1 day');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Reminder offsets like `1d` or `90m`: how long before a ticket's due date
+ * its assignee and watchers are reminded.
+ */
+
+const UNITS = {
+  m: { ms: 60_000, name: 'minute' },
+  h: { ms: 60 * 60_000, name: 'hour' },
+  d: { ms: 24 * 60 * 60_000, name: 'day' },
+};
+
+export interface ReminderOffset {
+  ms: number;
+  /** `1 day`, `2 hours` */
+  label: string;
+}
+
+/** Sorted shortest first. Throws on a malformed offset (a config error). */
+export function parseReminderOffsets(offsets: string[]): ReminderOffset[] {
+  return offsets
+    .map((offset) => {
+      const match = /^([1-9]\d*)([mhd])$/.exec(offset);
+
+      if (!match) {
+        throw new Error(
+          `Invalid due reminder offset "${offset}"; use a number and m, h, or d, e.g. 1d`,
+        );
+      }
+
+      const amount = Number(match[1]);
+      const unit = UNITS[match[2] as keyof typeof UNITS];
+
+      return {
+        ms: amount * unit.ms,
+        label: `${amount} ${unit.name}${amount === 1 ? '' : 's'}`,
+      };
+    })
+    .sort((a, b) => a.ms - b.ms);
+}
+
+/**
+ * The reminder to send now, if any: the latest one whose time has come,
+ * unless a reminder was already sent at or after that time. Reminders that
+ * were missed, e.g. for a ticket created close to its due date, collapse
+ * into the latest.
+ */
+export function dueReminder(
+  dueDate: Date,
+  now: Date,
+  offsets: ReminderOffset[],
+  lastSentAt: Date | null,
+): ReminderOffset | null {
+  const remaining = dueDate.getTime() - now.getTime();
+  if (remaining <= 0) return null;
+
+  const offset = offsets.find((o) => o.ms >= remaining);
+  if (!offset) return null;
+
+  const remindAt = dueDate.getTime() - offset.ms;
+  if (lastSentAt && lastSentAt.getTime() >= remindAt) return null;
+
+  return offset;
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { DueRemindersService } from './due-reminders.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [NotificationsModule],
+  providers: [DueRemindersService],
+})
+export class DueRemindersModule {}
@@ -0,0 +1,215 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { formatTicketKey } from '../tickets/ticket-key.helper';
+import {
+  ReminderOffset,
+  dueReminder,
+  parseReminderOffsets,
+} from './due-reminders.helper';
+import { NotificationType, Role } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+
+// Overdue tickets flagged or escalated per run; the rest wait a minute
+const SCHEDULER_BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+const DUE_TICKET_SELECT = {
+  id: true,
+  number: true,
+  title: true,
+  dueDate: true,
+  updatedAt: true,
+  assigneeId: true,
+  projectId: true,
+  dueReminderSentAt: true,
+  overdueNotifiedAt: true,
+  overdueEscalatedAt: true,
+  project: { select: { key: true } },
+  watchers: { select: { userId: true } },
+} as const;
+
+type DueTicket = Prisma.TicketGetPayload<{ select: typeof DUE_TICKET_SELECT }>;
+
+/**
+ * Acts on due dates: reminds the assignee and watchers at each configured
+ * offset before a ticket is due, tells them once it is overdue, and
+ * escalates to the project's admins after a grace period. Tickets in a
+ * done column are left alone. Each step claims the ticket with a
+ * conditional update first, so it happens once however many instances run.
+ */
+@Injectable()
+export class DueRemindersService {
+  private readonly offsets: ReminderOffset[];
+  private readonly escalationHours: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    config: ConfigService,
+  ) {
+    this.offsets = parseReminderOffsets(
+      config.get<string[]>('notifications.dueReminderOffsets')!,
+    );
+    this.escalationHours = config.get<number>(
+      'notifications.overdueEscalationHours',
+    )!;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async run() {
+    const now = new Date();
+
+    await this.sendReminders(now);
+    await this.flagOverdue(now);
+    await this.escalateOverdue(now);
+  }
+
+  private async sendReminders(now: Date) {
+    if (this.offsets.length === 0) return;
+
+    const horizon = new Date(now.getTime() + this.offsets.at(-1)!.ms);
+
+    // Bounded by the longest offset, so no batch limit
+    const tickets = await this.prisma.ticket.findMany({
+      where: {
+        deletedAt: null,
+        dueDate: { gt: now, lte: horizon },
+        status: { isDone: false },
+      },
+      select: DUE_TICKET_SELECT,
+      orderBy: { dueDate: 'asc' },
+    });
+
+    for (const ticket of tickets) {
+      const offset = dueReminder(
+        ticket.dueDate!,
+        now,
+        this.offsets,
+        ticket.dueReminderSentAt,
+      );
+      if (!offset) continue;
+
+      const claimed = await this.claim(
+        ticket,
+        { dueReminderSentAt: ticket.dueReminderSentAt },
+        { dueReminderSentAt: now },
+      );
+      if (!claimed) continue;
+
+      await this.notificationsService.send(this.followers(ticket), {
+        type: NotificationType.DUE_SOON,
+        message: `${this.keyOf(ticket)} "${ticket.title}" is due within ${offset.label}`,
+        ticketId: ticket.id,
+      });
+    }
+  }
+
+  /**
+   * A ticket is flagged once per due date: moving the due date later makes
+   * it eligible again.
+   */
+  private async flagOverdue(now: Date) {
+    const tickets = await this.prisma.ticket.findMany({
+      where: {
+        deletedAt: null,
+        dueDate: { lte: now },
+        status: { isDone: false },
+        OR: [
+          { overdueNotifiedAt: null },
+          { overdueNotifiedAt: { lt: this.prisma.ticket.fields.dueDate } },
+        ],
+      },
+      select: DUE_TICKET_SELECT,
+      orderBy: { dueDate: 'asc' },
+      take: SCHEDULER_BATCH_SIZE,
+    });
+
+    for (const ticket of tickets) {
+      const claimed = await this.claim(
+        ticket,
+        { overdueNotifiedAt: ticket.overdueNotifiedAt },
+        { overdueNotifiedAt: now },
+      );
+      if (!claimed) continue;
+
+      await this.notificationsService.send(this.followers(ticket), {
+        type: NotificationType.OVERDUE,
+        message: `${this.keyOf(ticket)} "${ticket.title}" is overdue`,
+        ticketId: ticket.id,
+      });
+    }
+  }
+
+  private async escalateOverdue(now: Date) {
+    const tickets = await this.prisma.ticket.findMany({
+      where: {
+        deletedAt: null,
+        dueDate: {
+          lte: new Date(now.getTime() - this.escalationHours * HOUR_MS),
+        },
+        status: { isDone: false },
+        OR: [
+          { overdueEscalatedAt: null },
+          { overdueEscalatedAt: { lt: this.prisma.ticket.fields.dueDate } },
+        ],
+      },
+      select: DUE_TICKET_SELECT,
+      orderBy: { dueDate: 'asc' },
+      take: SCHEDULER_BATCH_SIZE,
+    });
+
+    for (const ticket of tickets) {
+      const claimed = await this.claim(
+        ticket,
+        { overdueEscalatedAt: ticket.overdueEscalatedAt },
+        { overdueEscalatedAt: now },
+      );
+      if (!claimed) continue;
+
+      const admins = await this.prisma.projectMember.findMany({
+        where: {
+          projectId: ticket.projectId,
+          role: { in: [Role.OWNER, Role.ADMIN] },
+        },
+        select: { userId: true },
+      });
+
+      await this.notificationsService.send(
+        admins.map((admin) => admin.userId),
+        {
+          type: NotificationType.OVERDUE_ESCALATED,
+          message: `${this.keyOf(ticket)} "${ticket.title}" has been overdue for more than ${this.escalationHours} hours`,
+          ticketId: ticket.id,
+        },
+      );
+    }
+  }
+
+  /**
+   * Sets a scheduler timestamp if it still holds the value read. Keeps
+   * `updatedAt` as it was: a reminder isn't an edit.
+   */
+  private async claim(
+    ticket: DueTicket,
+    expected: Prisma.TicketWhereInput,
+    data: Prisma.TicketUpdateManyMutationInput,
+  ) {
+    const { count } = await this.prisma.ticket.updateMany({
+      where: { id: ticket.id, ...expected },
+      data: { ...data, updatedAt: ticket.updatedAt },
+    });
+
+    return count > 0;
+  }
+
+  private followers(ticket: DueTicket) {
+    return [ticket.assigneeId, ...ticket.watchers.map((w) => w.userId)];
+  }
+
+  private keyOf(ticket: DueTicket) {
+    return formatTicketKey(ticket.project.key, ticket.number);
+  }
+}
@@ -0,0 +1,22 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export class UpdateLabelDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(50)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @Matches(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, {
+    message: 'Color must be a valid hex color (e.g. #3B82F6)',
+  })
+  color?: string;
+}
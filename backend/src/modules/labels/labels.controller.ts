@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Post(':projectId/labels')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateLabelDto,
+  ) {
+    return this.labelsService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/labels')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.labelsService.findAll(projectId, user.id);
+  }
+
+  @Patch(':projectId/labels/:labelId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('labelId') labelId: string,
+    @Body() dto: UpdateLabelDto,
+  ) {
+    return this.labelsService.update(projectId, labelId, user.id, dto);
+  }
+
+  @Delete(':projectId/labels/:labelId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('labelId') labelId: string,
+  ) {
+    return this.labelsService.remove(projectId, labelId, user.id);
+  }
+}
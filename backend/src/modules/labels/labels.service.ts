@@ -0,0 +1,101 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role } from 'src/generated/prisma/enums';
+
+@Injectable()
+export class LabelsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(projectId: string, userId: string, dto: CreateLabelDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.assertNameAvailable(projectId, dto.name);
+
+    return this.prisma.label.create({
+      data: {
+        name: dto.name,
+        color: dto.color,
+        projectId,
+      },
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.label.findMany({
+      where: { projectId },
+      include: {
+        _count: {
+          select: { tickets: { where: { ticket: { deletedAt: null } } } },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async update(
+    projectId: string,
+    labelId: string,
+    userId: string,
+    dto: UpdateLabelDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const label = await this.findLabelInProject(projectId, labelId);
+
+    if (dto.name && dto.name !== label.name) {
+      await this.assertNameAvailable(projectId, dto.name);
+    }
+
+    return this.prisma.label.update({
+      where: { id: labelId },
+      data: dto,
+    });
+  }
+
+  async remove(projectId: string, labelId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findLabelInProject(projectId, labelId);
+
+    await this.prisma.label.delete({ where: { id: labelId } });
+
+    return { message: 'Label deleted successfully' };
+  }
+
+  private async findLabelInProject(projectId: string, labelId: string) {
+    const label = await this.prisma.label.findFirst({
+      where: { id: labelId, projectId },
+    });
+
+    if (!label) throw new NotFoundException('Label not found in this project');
+
+    return label;
+  }
+
+  private async assertNameAvailable(projectId: string, name: string) {
+    const existing = await this.prisma.label.findUnique({
+      where: { projectId_name: { projectId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Label "${name}" already exists in this project`,
+      );
+    }
+  }
+}
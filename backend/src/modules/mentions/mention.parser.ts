@@ -0,0 +1,20 @@
+/**
+ * Matches `@username` where the username follows the registration rules
+ * (3–20 letters, digits, `_` or `-`). The lookbehind skips email addresses
+ * and doubled `@@` so `ops@example.com` is not a mention.
+ */
+const MENTION_PATTERN = /(?<![\w@-])@([A-Za-z0-9_-]{3,20})(?![\w-])/g;
+
+/** Returns the distinct usernames mentioned in `text`, in order of appearance. */
+export function extractMentions(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const seen = new Map<string, string>();
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const key = match[1].toLowerCase();
+    if (!seen.has(key)) seen.set(key, match[1]);
+  }
+
+  return [...seen.values()];
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MentionsService } from './mentions.service';
+import { WatchersModule } from '../watchers/watchers.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [WatchersModule, NotificationsModule],
+  providers: [MentionsService],
+  exports: [MentionsService],
+})
+export class MentionsModule {}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from 'src/generated/prisma/client';
+import { NotificationType } from 'src/generated/prisma/enums';
+import { extractMentions } from './mention.parser';
+import { WatchersService } from '../watchers/watchers.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+export interface MentionSource {
+  projectId: string;
+  ticket: { id: string; number: number; title: string };
+  /** Omit for mentions in the ticket description. */
+  commentId?: string;
+  actorId: string;
+  text: string | null | undefined;
+}
+
+export interface MentionedUser {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface MentionResult {
+  mentions: { user: MentionedUser }[];
+  /** Mentioned usernames that are not members of the project. */
+  unresolvedMentions: string[];
+}
+
+@Injectable()
+export class MentionsService {
+  constructor(
+    private readonly watchersService: WatchersService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Replaces the stored mentions for a description or comment with the ones
+   * found in its current text. Only users who were not already mentioned
+   * there are notified and added as watchers, so edits don't re-notify.
+   */
+  async sync(
+    client: Prisma.TransactionClient,
+    source: MentionSource,
+  ): Promise<MentionResult> {
+    const usernames = extractMentions(source.text);
+    const commentId = source.commentId ?? null;
+
+    const members =
+      usernames.length === 0
+        ? []
+        : await client.projectMember.findMany({
+            where: {
+              projectId: source.projectId,
+              user: { username: { in: usernames, mode: 'insensitive' } },
+            },
+            select: {
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+            },
+          });
+
+    const users = members.map((m) => m.user);
+    const resolved = new Set(users.map((u) => u.username.toLowerCase()));
+    const unresolvedMentions = usernames.filter(
+      (name) => !resolved.has(name.toLowerCase()),
+    );
+
+    const existing = await client.mention.findMany({
+      where: { ticketId: source.ticket.id, commentId },
+      select: { userId: true },
+    });
+    const existingIds = new Set(existing.map((m) => m.userId));
+    const userIds = new Set(users.map((u) => u.id));
+
+    await client.mention.deleteMany({
+      where: {
+        ticketId: source.ticket.id,
+        commentId,
+        userId: { notIn: [...userIds] },
+      },
+    });
+
+    const added = [...userIds].filter((id) => !existingIds.has(id));
+
+    if (added.length > 0) {
+      await client.mention.createMany({
+        data: added.map((userId) => ({
+          ticketId: source.ticket.id,
+          commentId,
+          userId,
+        })),
+      });
+
+      const notified = added.filter((id) => id !== source.actorId);
+      const { number, title } = source.ticket;
+
+      await this.watchersService.watch(client, source.ticket.id, notified);
+      await this.notificationsService.notify(client, notified, {
+        type: NotificationType.MENTIONED,
+        message: commentId
+          ? `You were mentioned in a comment on #${number} "${title}"`
+          : `You were mentioned in #${number} "${title}"`,
+        actorId: source.actorId,
+        ticketId: source.ticket.id,
+      });
+    }
+
+    return { mentions: users.map((user) => ({ user })), unresolvedMentions };
+  }
+}
@@ -0,0 +1,26 @@
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  ChannelNotification,
+  NotificationChannel,
+} from './notification-channel';
+
+/** Writes to the recipients' inbox (`GET /notifications`). */
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly name = 'in-app';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async deliver(notification: ChannelNotification): Promise<void> {
+    if (notification.recipients.length === 0) return;
+
+    await this.prisma.notification.createMany({
+      data: notification.recipients.map((recipient) => ({
+        userId: recipient.id,
+        type: notification.type,
+        message: notification.message,
+        actorId: notification.actorId,
+        ticketId: notification.ticketId,
+      })),
+    });
+  }
+}
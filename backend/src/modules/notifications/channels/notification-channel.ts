@@ -0,0 +1,28 @@
+import { NotificationType } from 'src/generated/prisma/enums';
+
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  firstName: string;
+}
+
+export interface ChannelNotification {
+  type: NotificationType;
+  /** Short enough for an inbox line or an email subject. */
+  message: string;
+  recipients: NotificationRecipient[];
+  /** Unset for notifications the system raises on its own. */
+  actorId?: string;
+  ticketId?: string;
+}
+
+/**
+ * A way of delivering notifications, enabled by name in
+ * `NOTIFICATION_CHANNELS`. A failing channel doesn't stop the others.
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  deliver(notification: ChannelNotification): Promise<void>;
+}
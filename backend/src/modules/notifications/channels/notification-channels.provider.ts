@@ -0,0 +1,33 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './notification-channel';
+import { InAppNotificationChannel } from './in-app-notification.channel';
+import {
+  SmtpNotificationChannel,
+  SmtpOptions,
+} from './smtp-notification.channel';
+
+export const notificationChannelsProvider: Provider = {
+  provide: NOTIFICATION_CHANNELS,
+  inject: [ConfigService, PrismaService],
+  useFactory: (
+    config: ConfigService,
+    prisma: PrismaService,
+  ): NotificationChannel[] =>
+    config.get<string[]>('notifications.channels')!.map((channel) => {
+      switch (channel) {
+        case 'in-app':
+          return new InAppNotificationChannel(prisma);
+        case 'smtp':
+          return new SmtpNotificationChannel(
+            config.get<SmtpOptions>('notifications.smtp')!,
+          );
+        default:
+          throw new Error(`Unknown notification channel "${channel}"`);
+      }
+    }),
+};
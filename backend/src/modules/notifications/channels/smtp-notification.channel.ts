@@ -0,0 +1,143 @@
+import { Socket, createConnection } from 'net';
+import { hostname } from 'os';
+import {
+  ChannelNotification,
+  NotificationChannel,
+} from './notification-channel';
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  from: string;
+}
+
+/**
+ * Emails each recipient over plain SMTP: no TLS and no authentication.
+ * Meant for local catchers such as Mailpit or MailHog, not for relaying
+ * real mail.
+ */
+export class SmtpNotificationChannel implements NotificationChannel {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async deliver(notification: ChannelNotification): Promise<void> {
+    for (const recipient of notification.recipients) {
+      await this.send(
+        recipient.email,
+        notification.message,
+        `Hi ${recipient.firstName},\n\n${notification.message}\n`,
+      );
+    }
+  }
+
+  private async send(to: string, subject: string, text: string) {
+    const socket = createConnection({
+      host: this.options.host,
+      port: this.options.port,
+    });
+    const session = new SmtpSession(socket);
+
+    try {
+      await session.reply(220);
+      await session.command(`EHLO ${hostname()}`, 250);
+      await session.command(`MAIL FROM:<${this.options.from}>`, 250);
+      await session.command(`RCPT TO:<${to}>`, 250, 251);
+      await session.command('DATA', 354);
+      await session.command(this.message(to, subject, text), 250);
+      await session.command('QUIT', 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  /** The message with its terminating `.` line, dot-stuffed per RFC 5321. */
+  private message(to: string, subject: string, text: string) {
+    const headers = [
+      `From: ${this.options.from}`,
+      `To: ${to}`,
+      `Subject: ${subject.replace(/[\r\n]+/g, ' ')}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    const body = text
+      .split(/\r?\n/)
+      .map((line) => (line.startsWith('.') ? `.${line}` : line));
+
+    return [...headers, '', ...body, '.'].join('\r\n');
+  }
+}
+
+/** Reads SMTP replies, including multi-line ones, one command at a time. */
+class SmtpSession {
+  private buffer = '';
+  private waiting?: {
+    resolve: (reply: string) => void;
+    reject: (err: Error) => void;
+  };
+  private failure?: Error;
+
+  constructor(private readonly socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('timeout', () => this.fail(new Error('SMTP server timed out')));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  async command(line: string, ...expected: number[]) {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(...expected);
+  }
+
+  async reply(...expected: number[]) {
+    const reply = await new Promise<string>((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+    const code = Number(reply.slice(0, 3));
+
+    if (!expected.includes(code)) {
+      throw new Error(`Unexpected SMTP reply: ${reply.trim()}`);
+    }
+
+    return reply;
+  }
+
+  /** Hands a complete reply (its last line is `NNN text`) to the waiter. */
+  private flush() {
+    if (!this.waiting) return;
+
+    // The last element is an incomplete line (or empty)
+    const lines = this.buffer.split('\r\n');
+    const last = lines
+      .slice(0, -1)
+      .findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+
+    const reply = lines.slice(0, last + 1).join('\r\n');
+    this.buffer = lines.slice(last + 1).join('\r\n');
+
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve(reply);
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err;
+
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(err);
+  }
+}
@@ -0,0 +1,13 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+
+export class ListNotificationsQueryDto extends PaginationQueryDto {
+  /** Query strings are text, so only the literal `true` enables the filter. */
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) => obj.unread === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  unread?: boolean;
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { ListNotificationsQueryDto } from './dto/list-notifications-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'notifications', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Query() query: ListNotificationsQueryDto,
+  ) {
+    return this.notificationsService.findAll(user.id, query);
+  }
+
+  @Get('unread-count')
+  countUnread(@CurrentUser() user: { id: string }) {
+    return this.notificationsService.countUnread(user.id);
+  }
+
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  markAllRead(@CurrentUser() user: { id: string }) {
+    return this.notificationsService.markAllRead(user.id);
+  }
+
+  @Patch(':notificationId/read')
+  markRead(
+    @CurrentUser() user: { id: string },
+    @Param('notificationId') notificationId: string,
+  ) {
+    return this.notificationsService.markRead(notificationId, user.id);
+  }
+}
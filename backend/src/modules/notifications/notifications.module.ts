@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { notificationChannelsProvider } from './channels/notification-channels.provider';
+
+@Module({
+  controllers: [NotificationsController],
+  providers: [NotificationsService, notificationChannelsProvider],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,167 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { NotificationType } from 'src/generated/prisma/enums';
+import { ListNotificationsQueryDto } from './dto/list-notifications-query.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+import {
+  ChannelNotification,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './channels/notification-channel';
+
+export interface NotificationInput {
+  type: NotificationType;
+  message: string;
+  actorId: string;
+  ticketId?: string;
+}
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+  ) {}
+
+  /**
+   * Delivers a notification to each recipient. The actor never notifies
+   * themselves, and duplicate recipients receive a single copy.
+   */
+  async notify(
+    client: Prisma.TransactionClient,
+    recipientIds: (string | null | undefined)[],
+    input: NotificationInput,
+  ): Promise<void> {
+    const userIds = [
+      ...new Set(recipientIds.filter((id): id is string => !!id)),
+    ].filter((id) => id !== input.actorId);
+
+    if (userIds.length === 0) return;
+
+    await client.notification.createMany({
+      data: userIds.map((userId) => ({
+        userId,
+        type: input.type,
+        message: input.message,
+        actorId: input.actorId,
+        ticketId: input.ticketId,
+      })),
+    });
+  }
+
+  /**
+   * Delivers a notification through every configured channel, to active
+   * users only. For notifications raised outside a change, such as due date
+   * reminders: `notify` only writes to the inbox, inside the change's
+   * transaction, so nothing is sent for a change that rolls back.
+   */
+  async send(
+    recipientIds: (string | null | undefined)[],
+    input: Omit<ChannelNotification, 'recipients'>,
+  ): Promise<void> {
+    const userIds = [
+      ...new Set(recipientIds.filter((id): id is string => !!id)),
+    ].filter((id) => id !== input.actorId);
+
+    if (userIds.length === 0) return;
+
+    const recipients = await this.prisma.user.findMany({
+      where: { id: { in: userIds }, isActive: true },
+      select: { id: true, email: true, firstName: true },
+    });
+
+    for (const channel of this.channels) {
+      await channel
+        .deliver({ ...input, recipients })
+        .catch((err: Error) =>
+          this.logger.warn(
+            `Notification channel ${channel.name} failed: ${err.message}`,
+          ),
+        );
+    }
+  }
+
+  /** Notifies everyone watching the ticket, minus the `exclude` list. */
+  async notifyWatchers(
+    client: Prisma.TransactionClient,
+    ticketId: string,
+    input: Omit<NotificationInput, 'ticketId'>,
+    exclude: string[] = [],
+  ): Promise<void> {
+    const watchers = await client.ticketWatcher.findMany({
+      where: { ticketId, userId: { notIn: exclude } },
+      select: { userId: true },
+    });
+
+    await this.notify(
+      client,
+      watchers.map((w) => w.userId),
+      { ...input, ticketId },
+    );
+  }
+
+  async findAll(userId: string, query: ListNotificationsQueryDto) {
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId, ...(query.unread && { readAt: null }) },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        ticket: {
+          select: {
+            id: true,
+            number: true,
+            title: true,
+            projectId: true,
+            project: { select: { key: true } },
+          },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(notifications, query);
+  }
+
+  async countUnread(userId: string) {
+    const count = await this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+
+    return { count };
+  }
+
+  async markRead(notificationId: string, userId: string) {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) throw new NotFoundException('Notification not found');
+
+    if (notification.readAt) return notification;
+
+    return this.prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    });
+  }
+
+  async markAllRead(userId: string) {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return { message: 'Notifications marked as read', count };
+  }
+}
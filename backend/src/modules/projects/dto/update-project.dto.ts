@@ -1,4 +1,14 @@
-import { IsString, IsOptional, MinLength, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  IsInt,
+  Min,
+  IsArray,
+  ArrayMaxSize,
+  Matches,
+} from 'class-validator';
 
 export class UpdateProjectDto {
   @IsString()
@@ -11,4 +21,20 @@ export class UpdateProjectDto {
   @IsOptional()
   @MaxLength(500)
   description?: string;
+
+  /** Per-file upload limit in bytes; `null` falls back to the global limit. */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  attachmentMaxBytes?: number | null;
+
+  /** Allowed MIME types (`image/*` wildcards allowed); empty = global list. */
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Matches(/^[\w.+-]+\/(\*|[\w.+-]+)$/, {
+    each: true,
+    message: 'Each MIME type must look like type/subtype or type/*',
+  })
+  @IsOptional()
+  attachmentMimeTypes?: string[];
 }
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
+import { AttachmentsModule } from '../attachments/attachments.module';
 
 @Module({
+  imports: [AttachmentsModule],
   controllers: [ProjectsController],
   providers: [ProjectsService],
   exports: [ProjectsService],
@@ -57,6 +57,15 @@ export class ProjectsController {
     return this.projectsService.archive(projectId, user.id);
   }
 
+  @Delete(':projectId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.projectsService.remove(projectId, user.id);
+  }
+
   @Post(':projectId/members')
   inviteMember(
     @CurrentUser() user: { id: string },
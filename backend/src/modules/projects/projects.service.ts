@@ -14,17 +14,22 @@ import {
 } from '../../common/helpers/project-access.helper';
 import slugify from 'slugify';
 import { Role } from 'src/generated/prisma/enums';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { evenRanks } from '../../common/helpers/rank.helper';
 
 const DEFAULT_STATUSES = [
-  { name: 'To Do', color: '#6B7280', order: 0, isDefault: true },
-  { name: 'In Progress', color: '#3B82F6', order: 1, isDefault: false },
-  { name: 'In Review', color: '#F59E0B', order: 2, isDefault: false },
-  { name: 'Done', color: '#10B981', order: 3, isDefault: false },
+  { name: 'To Do', color: '#6B7280', isDefault: true },
+  { name: 'In Progress', color: '#3B82F6', isDefault: false },
+  { name: 'In Review', color: '#F59E0B', isDefault: false },
+  { name: 'Done', color: '#10B981', isDefault: false, isDone: true },
 ];
 
 @Injectable()
 export class ProjectsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly attachmentsService: AttachmentsService,
+  ) {}
 
   async create(userId: string, dto: CreateProjectDto) {
     const existingKey = await this.prisma.project.findUnique({
@@ -61,7 +66,10 @@ export class ProjectsService {
           name: `${project.name} Board`,
           projectId: project.id,
           statuses: {
-            create: DEFAULT_STATUSES,
+            create: DEFAULT_STATUSES.map((status, i) => ({
+              ...status,
+              rank: evenRanks(DEFAULT_STATUSES.length)[i],
+            })),
           },
         },
       });
@@ -77,7 +85,10 @@ export class ProjectsService {
         project: {
           include: {
             _count: {
-              select: { members: true, tickets: true },
+              select: {
+                members: true,
+                tickets: { where: { deletedAt: null } },
+              },
             },
           },
         },
@@ -114,12 +125,12 @@ export class ProjectsService {
         board: {
           include: {
             statuses: {
-              orderBy: { order: 'asc' },
+              orderBy: { rank: 'asc' },
             },
           },
         },
         _count: {
-          select: { tickets: true },
+          select: { tickets: { where: { deletedAt: null } } },
         },
       },
     });
@@ -149,6 +160,29 @@ export class ProjectsService {
     });
   }
 
+  async remove(projectId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(
+      member.role,
+      Role.OWNER,
+      'Only the project owner can delete this project',
+    );
+
+    const storageKeys = await this.attachmentsService.findStorageKeys({
+      ticket: { projectId },
+    });
+
+    // Tickets go first: their status FK would block the board cascade
+    await this.prisma.$transaction([
+      this.prisma.ticket.deleteMany({ where: { projectId } }),
+      this.prisma.project.delete({ where: { id: projectId } }),
+    ]);
+
+    await this.attachmentsService.deleteBlobs(storageKeys);
+
+    return { message: 'Project deleted successfully' };
+  }
+
   async inviteMember(
     projectId: string,
     inviterId: string,
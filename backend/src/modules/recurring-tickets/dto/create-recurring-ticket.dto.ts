@@ -0,0 +1,49 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+
+export class CreateRecurringTicketDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  /** Column for new tickets; the board's default column when omitted. */
+  @IsUUID()
+  @IsOptional()
+  statusId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string;
+
+  /** A five-field cron expression or an RRULE, in UTC. */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  schedule: string;
+
+  /** Defaults to now. */
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+}
@@ -0,0 +1,49 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+
+export class UpdateRecurringTicketDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(255)
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string | null;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  /** `null` switches to the board's default column. */
+  @IsUUID()
+  @IsOptional()
+  statusId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string | null;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(255)
+  schedule?: string;
+
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+}
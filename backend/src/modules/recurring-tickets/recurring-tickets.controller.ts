@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { RecurringTicketsService } from './recurring-tickets.service';
+import { CreateRecurringTicketDto } from './dto/create-recurring-ticket.dto';
+import { UpdateRecurringTicketDto } from './dto/update-recurring-ticket.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class RecurringTicketsController {
+  constructor(
+    private readonly recurringTicketsService: RecurringTicketsService,
+  ) {}
+
+  @Post(':projectId/recurring-tickets')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateRecurringTicketDto,
+  ) {
+    return this.recurringTicketsService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/recurring-tickets')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.recurringTicketsService.findAll(projectId, user.id);
+  }
+
+  @Get(':projectId/recurring-tickets/:recurringTicketId')
+  findOne(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+  ) {
+    return this.recurringTicketsService.findOne(
+      projectId,
+      recurringTicketId,
+      user.id,
+    );
+  }
+
+  @Patch(':projectId/recurring-tickets/:recurringTicketId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+    @Body() dto: UpdateRecurringTicketDto,
+  ) {
+    return this.recurringTicketsService.update(
+      projectId,
+      recurringTicketId,
+      user.id,
+      dto,
+    );
+  }
+
+  @Delete(':projectId/recurring-tickets/:recurringTicketId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+  ) {
+    return this.recurringTicketsService.remove(
+      projectId,
+      recurringTicketId,
+      user.id,
+    );
+  }
+
+  @Post(':projectId/recurring-tickets/:recurringTicketId/pause')
+  @HttpCode(HttpStatus.OK)
+  pause(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+  ) {
+    return this.recurringTicketsService.pause(
+      projectId,
+      recurringTicketId,
+      user.id,
+    );
+  }
+
+  @Post(':projectId/recurring-tickets/:recurringTicketId/resume')
+  @HttpCode(HttpStatus.OK)
+  resume(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+  ) {
+    return this.recurringTicketsService.resume(
+      projectId,
+      recurringTicketId,
+      user.id,
+    );
+  }
+
+  @Post(':projectId/recurring-tickets/:recurringTicketId/skip')
+  @HttpCode(HttpStatus.OK)
+  skip(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('recurringTicketId') recurringTicketId: string,
+  ) {
+    return this.recurringTicketsService.skip(
+      projectId,
+      recurringTicketId,
+      user.id,
+    );
+  }
+}
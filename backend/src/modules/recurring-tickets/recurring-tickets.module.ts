@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RecurringTicketsService } from './recurring-tickets.service';
+import { RecurringTicketsController } from './recurring-tickets.controller';
+import { TicketsModule } from '../tickets/tickets.module';
+
+@Module({
+  imports: [TicketsModule],
+  controllers: [RecurringTicketsController],
+  providers: [RecurringTicketsService],
+})
+export class RecurringTicketsModule {}
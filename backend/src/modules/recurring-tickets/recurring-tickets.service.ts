@@ -0,0 +1,350 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { CreateRecurringTicketDto } from './dto/create-recurring-ticket.dto';
+import { UpdateRecurringTicketDto } from './dto/update-recurring-ticket.dto';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { nextOccurrence, validateSchedule } from './schedule.helper';
+import { Role } from 'src/generated/prisma/enums';
+import { RecurringTicket } from 'src/generated/prisma/client';
+
+// Definitions materialized per scheduler tick; the rest wait a minute
+const SCHEDULER_BATCH_SIZE = 100;
+
+const RECURRING_TICKET_INCLUDE = {
+  status: { select: { id: true, name: true } },
+  assignee: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+  createdBy: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+  _count: { select: { tickets: true } },
+} as const;
+
+@Injectable()
+export class RecurringTicketsService {
+  private readonly logger = new Logger(RecurringTicketsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ticketsService: TicketsService,
+  ) {}
+
+  async create(
+    projectId: string,
+    userId: string,
+    dto: CreateRecurringTicketDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    validateSchedule(dto.schedule);
+    if (dto.statusId) {
+      await this.validateStatusInProject(dto.statusId, projectId);
+    }
+    if (dto.assigneeId) {
+      await this.validateMember(projectId, dto.assigneeId);
+    }
+
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : new Date();
+
+    return this.prisma.recurringTicket.create({
+      data: {
+        title: dto.title,
+        description: dto.description,
+        type: dto.type,
+        priority: dto.priority,
+        statusId: dto.statusId,
+        assigneeId: dto.assigneeId,
+        schedule: dto.schedule.trim(),
+        startsAt,
+        nextRunAt: nextOccurrence(dto.schedule, startsAt, new Date()),
+        projectId,
+        createdById: userId,
+      },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.recurringTicket.findMany({
+      where: { projectId },
+      include: RECURRING_TICKET_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(projectId: string, recurringTicketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const recurring = await this.prisma.recurringTicket.findFirst({
+      where: { id: recurringTicketId, projectId },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+
+    if (!recurring) throw new NotFoundException('Recurring ticket not found');
+
+    return recurring;
+  }
+
+  /** A new schedule or start date recomputes the next occurrence from now. */
+  async update(
+    projectId: string,
+    recurringTicketId: string,
+    userId: string,
+    dto: UpdateRecurringTicketDto,
+  ) {
+    const recurring = await this.findManageable(
+      projectId,
+      recurringTicketId,
+      userId,
+    );
+
+    if (dto.schedule) validateSchedule(dto.schedule);
+    if (dto.statusId) {
+      await this.validateStatusInProject(dto.statusId, projectId);
+    }
+    if (dto.assigneeId) {
+      await this.validateMember(projectId, dto.assigneeId);
+    }
+
+    const schedule = dto.schedule?.trim() ?? recurring.schedule;
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : recurring.startsAt;
+    const rescheduled =
+      dto.schedule !== undefined || dto.startsAt !== undefined;
+
+    return this.prisma.recurringTicket.update({
+      where: { id: recurringTicketId },
+      data: {
+        ...dto,
+        schedule,
+        startsAt,
+        nextRunAt: rescheduled
+          ? nextOccurrence(schedule, startsAt, new Date())
+          : undefined,
+      },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+  }
+
+  async remove(projectId: string, recurringTicketId: string, userId: string) {
+    await this.findManageable(projectId, recurringTicketId, userId);
+
+    await this.prisma.recurringTicket.delete({
+      where: { id: recurringTicketId },
+    });
+
+    return { message: 'Recurring ticket deleted successfully' };
+  }
+
+  async pause(projectId: string, recurringTicketId: string, userId: string) {
+    await this.findManageable(projectId, recurringTicketId, userId);
+
+    return this.prisma.recurringTicket.update({
+      where: { id: recurringTicketId },
+      data: { paused: true },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+  }
+
+  /** Occurrences that came due while paused are not created. */
+  async resume(projectId: string, recurringTicketId: string, userId: string) {
+    const recurring = await this.findManageable(
+      projectId,
+      recurringTicketId,
+      userId,
+    );
+    const now = new Date();
+
+    return this.prisma.recurringTicket.update({
+      where: { id: recurringTicketId },
+      data: {
+        paused: false,
+        nextRunAt:
+          recurring.nextRunAt && recurring.nextRunAt <= now
+            ? nextOccurrence(recurring.schedule, recurring.startsAt, now)
+            : undefined,
+      },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+  }
+
+  /** Moves `nextRunAt` past the next occurrence without creating it. */
+  async skip(projectId: string, recurringTicketId: string, userId: string) {
+    const recurring = await this.findManageable(
+      projectId,
+      recurringTicketId,
+      userId,
+    );
+
+    if (!recurring.nextRunAt) {
+      throw new BadRequestException('The schedule has no more occurrences');
+    }
+
+    return this.prisma.recurringTicket.update({
+      where: { id: recurringTicketId },
+      data: {
+        nextRunAt: nextOccurrence(
+          recurring.schedule,
+          recurring.startsAt,
+          recurring.nextRunAt,
+        ),
+      },
+      include: RECURRING_TICKET_INCLUDE,
+    });
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async createDueTickets() {
+    const now = new Date();
+
+    const due = await this.prisma.recurringTicket.findMany({
+      where: { paused: false, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: SCHEDULER_BATCH_SIZE,
+    });
+
+    for (const recurring of due) {
+      await this.materialize(recurring, now);
+    }
+  }
+
+  /**
+   * Claims the occurrence by moving `nextRunAt` on, then creates the
+   * ticket. The claim only succeeds while `nextRunAt` still holds the value
+   * read, so each occurrence is created at most once however many
+   * instances run or restart. Occurrences missed while the server was down
+   * collapse into one ticket.
+   */
+  private async materialize(recurring: RecurringTicket, now: Date) {
+    const { count } = await this.prisma.recurringTicket.updateMany({
+      where: {
+        id: recurring.id,
+        paused: false,
+        nextRunAt: recurring.nextRunAt,
+      },
+      data: {
+        nextRunAt: nextOccurrence(recurring.schedule, recurring.startsAt, now),
+        lastRunAt: now,
+      },
+    });
+    if (count === 0) return;
+
+    try {
+      const assigneeIsMember =
+        recurring.assigneeId &&
+        (await this.prisma.projectMember.findUnique({
+          where: {
+            userId_projectId: {
+              userId: recurring.assigneeId,
+              projectId: recurring.projectId,
+            },
+          },
+        }));
+
+      await this.ticketsService.create(
+        recurring.projectId,
+        recurring.createdById,
+        {
+          title: recurring.title,
+          description: recurring.description ?? undefined,
+          type: recurring.type,
+          priority: recurring.priority,
+          statusId:
+            recurring.statusId ??
+            (await this.findDefaultStatusId(recurring.projectId)),
+          assigneeId: assigneeIsMember ? recurring.assigneeId! : undefined,
+        },
+        recurring.id,
+      );
+
+      if (recurring.lastError) {
+        await this.prisma.recurringTicket.update({
+          where: { id: recurring.id },
+          data: { lastError: null },
+        });
+      }
+    } catch (err) {
+      const message = (err as Error).message;
+
+      await this.prisma.recurringTicket.update({
+        where: { id: recurring.id },
+        data: { lastError: message },
+      });
+      this.logger.warn(
+        `Recurring ticket ${recurring.id} failed to create a ticket: ${message}`,
+      );
+    }
+  }
+
+  /** The board's default column, or its first one if none is marked. */
+  private async findDefaultStatusId(projectId: string) {
+    const status = await this.prisma.status.findFirst({
+      where: { board: { projectId } },
+      orderBy: [{ isDefault: 'desc' }, { rank: 'asc' }],
+      select: { id: true },
+    });
+
+    if (!status) throw new NotFoundException('The project has no columns');
+
+    return status.id;
+  }
+
+  /** Only the user who set it up, or an admin, can change a definition. */
+  private async findManageable(
+    projectId: string,
+    recurringTicketId: string,
+    userId: string,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const recurring = await this.prisma.recurringTicket.findFirst({
+      where: { id: recurringTicketId, projectId },
+    });
+
+    if (!recurring) throw new NotFoundException('Recurring ticket not found');
+
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (recurring.createdById !== userId && !isAdminOrOwner) {
+      throw new ForbiddenException(
+        'Only the creator, admin, or owner can change this recurring ticket',
+      );
+    }
+
+    return recurring;
+  }
+
+  private async validateStatusInProject(statusId: string, projectId: string) {
+    const status = await this.prisma.status.findFirst({
+      where: { id: statusId, board: { projectId } },
+    });
+
+    if (!status) {
+      throw new NotFoundException('Status not found in this project');
+    }
+  }
+
+  private async validateMember(projectId: string, userId: string) {
+    const member = await this.prisma.projectMember.findUnique({
+      where: { userId_projectId: { userId, projectId } },
+    });
+
+    if (!member) {
+      throw new BadRequestException(
+        'The assignee is not a member of this project',
+      );
+    }
+  }
+}
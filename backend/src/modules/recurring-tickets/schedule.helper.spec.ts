@@ -0,0 +1,101 @@
+import { nextOccurrence, validateSchedule } from './schedule.helper';
+
+describe('schedule helper', () => {
+  // A Monday
+  const start = new Date('2026-10-19T08:00:00Z');
+
+  const occurrences = (schedule: string, count: number, from = start) => {
+    const dates: string[] = [];
+    let after = from;
+
+    for (let i = 0; i < count; i++) {
+      const next = nextOccurrence(schedule, start, after);
+      if (!next) break;
+      dates.push(next.toISOString());
+      after = next;
+    }
+
+    return dates;
+  };
+
+  describe('cron', () => {
+    it('returns the next matching minute in UTC', () => {
+      expect(occurrences('0 9 * * MON', 2)).toEqual([
+        '2026-10-19T09:00:00.000Z',
+        '2026-10-26T09:00:00.000Z',
+      ]);
+    });
+
+    it('never fires before the start', () => {
+      const next = nextOccurrence(
+        '0 9 * * *',
+        start,
+        new Date('2026-01-01T00:00:00Z'),
+      );
+
+      expect(next?.toISOString()).toBe('2026-10-19T09:00:00.000Z');
+    });
+
+    it('rejects invalid expressions and second-level schedules', () => {
+      expect(() => validateSchedule('0 9 * *')).toThrow();
+      expect(() => validateSchedule('* * * * * *')).toThrow();
+      expect(() => validateSchedule('61 9 * * *')).toThrow();
+      expect(() => validateSchedule('@weekly')).not.toThrow();
+    });
+
+    it('rejects expressions that never fire', () => {
+      expect(() => validateSchedule('0 0 31 2 *')).toThrow(
+        'Cron expression "0 0 31 2 *" never fires',
+      );
+      expect(nextOccurrence('0 0 31 2 *', start, start)).toBeNull();
+    });
+  });
+
+  describe('RRULE', () => {
+    it('repeats weekly on the given days at the given time', () => {
+      expect(occurrences('RRULE:FREQ=WEEKLY;BYDAY=MO,TH;BYHOUR=9', 3)).toEqual([
+        '2026-10-19T09:00:00.000Z',
+        '2026-10-22T09:00:00.000Z',
+        '2026-10-26T09:00:00.000Z',
+      ]);
+    });
+
+    it('counts intervals from the start', () => {
+      expect(occurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR', 2)).toEqual([
+        '2026-10-23T08:00:00.000Z',
+        '2026-11-06T08:00:00.000Z',
+      ]);
+      expect(occurrences('FREQ=DAILY;INTERVAL=3', 2)).toEqual([
+        '2026-10-22T08:00:00.000Z',
+        '2026-10-25T08:00:00.000Z',
+      ]);
+    });
+
+    it('handles the last day of the month and skips short months', () => {
+      expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=17', 3)).toEqual([
+        '2026-10-31T17:00:00.000Z',
+        '2026-11-30T17:00:00.000Z',
+        '2026-12-31T17:00:00.000Z',
+      ]);
+
+      const thirtyFirst = new Date('2026-10-31T08:00:00Z');
+      const next = nextOccurrence('FREQ=MONTHLY', thirtyFirst, thirtyFirst);
+      expect(next?.toISOString()).toBe('2026-12-31T08:00:00.000Z');
+    });
+
+    it('stops at UNTIL', () => {
+      expect(occurrences('FREQ=DAILY;UNTIL=20261021', 5)).toEqual([
+        '2026-10-20T08:00:00.000Z',
+        '2026-10-21T08:00:00.000Z',
+      ]);
+    });
+
+    it('rejects unsupported or malformed rules', () => {
+      expect(() => validateSchedule('FREQ=HOURLY')).toThrow();
+      expect(() => validateSchedule('FREQ=DAILY;COUNT=3')).toThrow();
+      expect(() => validateSchedule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+      expect(() => validateSchedule('FREQ=WEEKLY;BYMONTHDAY=1')).toThrow();
+      expect(() => validateSchedule('FREQ=DAILY;BYHOUR=24')).toThrow();
+    });
+  });
+});
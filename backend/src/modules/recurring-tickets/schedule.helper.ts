@@ -0,0 +1,283 @@
+import { BadRequestException } from '@nestjs/common';
+import { CronTime, validateCronExpression } from 'cron';
+
+/**
+ * Recurring ticket schedules: a five-field cron expression (`0 9 * * MON`,
+ * or an alias like `@daily`) or an RRULE (`FREQ=WEEKLY;BYDAY=MO;BYHOUR=9`).
+ * Both are evaluated in UTC.
+ *
+ * Only the RRULE parts below are supported. Without BYHOUR / BYMINUTE the
+ * time of day comes from the start, as does the weekday of a WEEKLY rule
+ * and the day of a MONTHLY one.
+ */
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_INTERVAL = 99;
+
+// Far enough for any supported rule to come round again
+const MAX_SEARCH_DAYS = 10 * 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Frequency = (typeof FREQUENCIES)[number];
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  /** 0 = Sunday, as in `Date.getUTCDay()`. */
+  byDay?: number[];
+  /** Negative counts back from the end of the month. */
+  byMonthDay?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  until?: Date;
+}
+
+export function isRecurrenceRule(schedule: string) {
+  return /^RRULE:|FREQ=/i.test(schedule.trim());
+}
+
+/** Throws `BadRequestException` for anything that isn't a usable schedule. */
+export function validateSchedule(schedule: string) {
+  if (isRecurrenceRule(schedule)) {
+    parseRecurrenceRule(schedule);
+    return;
+  }
+
+  const expression = schedule.trim();
+
+  if (!expression.startsWith('@') && expression.split(/\s+/).length !== 5) {
+    throw new BadRequestException(
+      'Cron schedules need five fields: minute hour day-of-month month day-of-week',
+    );
+  }
+
+  const { valid, error } = validateCronExpression(expression);
+  if (!valid) {
+    throw new BadRequestException(
+      `Invalid cron expression: ${(error as Error | undefined)?.message ?? expression}`,
+    );
+  }
+
+  // Valid fields can still describe a date that never comes, e.g. 31 February
+  const now = new Date();
+  if (!nextOccurrence(expression, now, now)) {
+    throw new BadRequestException(
+      `Cron expression "${expression}" never fires`,
+    );
+  }
+}
+
+/**
+ * The first occurrence strictly after `after` and no earlier than `start`,
+ * or `null` when the schedule has ended.
+ */
+export function nextOccurrence(
+  schedule: string,
+  start: Date,
+  after: Date,
+): Date | null {
+  if (!isRecurrenceRule(schedule)) {
+    const from = after < start ? new Date(start.getTime() - 1) : after;
+
+    // `cron` throws when it finds no match within its search window
+    try {
+      return new CronTime(schedule.trim(), 'UTC')
+        .getNextDateFrom(from)
+        .toJSDate();
+    } catch {
+      return null;
+    }
+  }
+
+  const rule = parseRecurrenceRule(schedule);
+  const hours = rule.byHour ?? [start.getUTCHours()];
+  const minutes = rule.byMinute ?? [start.getUTCMinutes()];
+  const times = hours
+    .flatMap((hour) => minutes.map((minute) => (hour * 60 + minute) * 60_000))
+    .sort((a, b) => a - b);
+
+  const startDay = startOfDay(start);
+  const firstDay = Math.max(startDay, startOfDay(after));
+
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const day = firstDay + i * DAY_MS;
+    if (!matchesDay(rule, start, startDay, day)) continue;
+
+    for (const time of times) {
+      const candidate = new Date(day + time);
+      if (candidate <= after || candidate < start) continue;
+      if (rule.until && candidate > rule.until) return null;
+
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+export function parseRecurrenceRule(schedule: string): RecurrenceRule {
+  const body = schedule.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value, ...rest] = part.split('=');
+
+    if (!value || rest.length > 0) {
+      throw new BadRequestException(`Invalid RRULE part: ${part}`);
+    }
+
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new BadRequestException(
+      `RRULE FREQ must be one of: ${FREQUENCIES.join(', ')}`,
+    );
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseNumbers(key, value, 1, MAX_INTERVAL)[0];
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((day) => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) {
+            throw new BadRequestException(
+              `RRULE BYDAY takes weekdays (${WEEKDAYS.join(', ')}), got ${day}`,
+            );
+          }
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY') {
+          throw new BadRequestException(
+            'RRULE BYMONTHDAY only applies to FREQ=MONTHLY',
+          );
+        }
+        rule.byMonthDay = parseNumbers(key, value, -31, 31);
+        if (rule.byMonthDay.includes(0)) {
+          throw new BadRequestException('RRULE BYMONTHDAY cannot be 0');
+        }
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseNumbers(key, value, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseNumbers(key, value, 0, 59);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new BadRequestException(`RRULE ${key} is not supported`);
+    }
+  }
+
+  return rule;
+}
+
+function matchesDay(
+  rule: RecurrenceRule,
+  start: Date,
+  startDay: number,
+  day: number,
+) {
+  const date = new Date(day);
+  const weekday = date.getUTCDay();
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const days = Math.round((day - startDay) / DAY_MS);
+      return (
+        days % rule.interval === 0 &&
+        (!rule.byDay || rule.byDay.includes(weekday))
+      );
+    }
+
+    case 'WEEKLY': {
+      const weeks = Math.round(
+        (startOfWeek(day) - startOfWeek(startDay)) / (7 * DAY_MS),
+      );
+      return (
+        weeks % rule.interval === 0 &&
+        (rule.byDay ?? [start.getUTCDay()]).includes(weekday)
+      );
+    }
+
+    case 'MONTHLY': {
+      const months =
+        (date.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        date.getUTCMonth() -
+        start.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+
+      if (rule.byMonthDay) {
+        const length = daysInMonth(date);
+        return rule.byMonthDay.some(
+          (d) => (d > 0 ? d : length + 1 + d) === date.getUTCDate(),
+        );
+      }
+
+      if (rule.byDay) return rule.byDay.includes(weekday);
+
+      return date.getUTCDate() === start.getUTCDate();
+    }
+  }
+}
+
+function parseNumbers(key: string, value: string, min: number, max: number) {
+  return value.split(',').map((item) => {
+    const number = Number(item);
+    if (!/^[+-]?\d+$/.test(item) || number < min || number > max) {
+      throw new BadRequestException(
+        `RRULE ${key} must be between ${min} and ${max}, got ${item}`,
+      );
+    }
+    return number;
+  });
+}
+
+/** `20261231` or `20261231T235959Z`. */
+function parseUntil(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(
+    value,
+  );
+
+  if (!match) {
+    throw new BadRequestException(
+      'RRULE UNTIL must look like 20261231 or 20261231T235959Z',
+    );
+  }
+
+  const [, y, mo, d, h, mi, s] = match;
+  const until = match[4]
+    ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+    : Date.UTC(+y, +mo - 1, +d, 23, 59, 59);
+
+  return new Date(until);
+}
+
+function startOfDay(date: Date) {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/** Weeks start on Monday, as in RRULE's default WKST. */
+function startOfWeek(day: number) {
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function daysInMonth(date: Date) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+}
@@ -0,0 +1,30 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { TicketPriority } from 'src/generated/prisma/enums';
+
+// A year of running time
+export const MAX_SLA_MINUTES = 525_600;
+
+/**
+ * Targets are minutes of running time. A response target needs the column
+ * that counts as a response, e.g. In Progress.
+ */
+export class CreateSlaPolicyDto {
+  @IsEnum(TicketPriority)
+  priority: TicketPriority;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLA_MINUTES)
+  @IsOptional()
+  responseMinutes?: number;
+
+  @IsUUID()
+  @IsOptional()
+  responseStatusId?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLA_MINUTES)
+  @IsOptional()
+  resolutionMinutes?: number;
+}
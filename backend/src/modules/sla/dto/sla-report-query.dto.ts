@@ -0,0 +1,14 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MAX_SLA_MINUTES } from './create-sla-policy.dto';
+
+export class SlaReportQueryDto {
+  /**
+   * A ticket is at risk when a timer has this many minutes or fewer left.
+   * Defaults to a quarter of each target.
+   */
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLA_MINUTES)
+  @IsOptional()
+  atRiskMinutes?: number;
+}
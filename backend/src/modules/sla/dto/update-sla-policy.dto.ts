@@ -0,0 +1,26 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { TicketPriority } from 'src/generated/prisma/enums';
+import { MAX_SLA_MINUTES } from './create-sla-policy.dto';
+
+/** `null` removes a target. */
+export class UpdateSlaPolicyDto {
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLA_MINUTES)
+  @IsOptional()
+  responseMinutes?: number | null;
+
+  @IsUUID()
+  @IsOptional()
+  responseStatusId?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLA_MINUTES)
+  @IsOptional()
+  resolutionMinutes?: number | null;
+}
@@ -0,0 +1,169 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateSlaPolicyDto } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role, TicketPriority } from 'src/generated/prisma/enums';
+
+const SLA_POLICY_INCLUDE = {
+  responseStatus: { select: { id: true, name: true } },
+} as const;
+
+const PRIORITY_ORDER: TicketPriority[] = [
+  TicketPriority.URGENT,
+  TicketPriority.HIGH,
+  TicketPriority.MEDIUM,
+  TicketPriority.LOW,
+];
+
+@Injectable()
+export class SlaPoliciesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(projectId: string, userId: string, dto: CreateSlaPolicyDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.assertPriorityAvailable(projectId, dto.priority);
+    await this.validateTargets(projectId, dto);
+
+    return this.prisma.slaPolicy.create({
+      data: {
+        priority: dto.priority,
+        responseMinutes: dto.responseMinutes,
+        responseStatusId: dto.responseStatusId,
+        resolutionMinutes: dto.resolutionMinutes,
+        projectId,
+      },
+      include: SLA_POLICY_INCLUDE,
+    });
+  }
+
+  /** Most urgent first. */
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const policies = await this.prisma.slaPolicy.findMany({
+      where: { projectId },
+      include: SLA_POLICY_INCLUDE,
+    });
+
+    return policies.sort(
+      (a, b) =>
+        PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority),
+    );
+  }
+
+  async update(
+    projectId: string,
+    policyId: string,
+    userId: string,
+    dto: UpdateSlaPolicyDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const policy = await this.findPolicyInProject(projectId, policyId);
+
+    if (dto.priority && dto.priority !== policy.priority) {
+      await this.assertPriorityAvailable(projectId, dto.priority);
+    }
+    await this.validateTargets(projectId, {
+      responseMinutes:
+        dto.responseMinutes === undefined
+          ? policy.responseMinutes
+          : dto.responseMinutes,
+      responseStatusId:
+        dto.responseStatusId === undefined
+          ? policy.responseStatusId
+          : dto.responseStatusId,
+      resolutionMinutes:
+        dto.resolutionMinutes === undefined
+          ? policy.resolutionMinutes
+          : dto.resolutionMinutes,
+    });
+
+    return this.prisma.slaPolicy.update({
+      where: { id: policyId },
+      data: dto,
+      include: SLA_POLICY_INCLUDE,
+    });
+  }
+
+  /** Breaches already recorded on tickets are kept. */
+  async remove(projectId: string, policyId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findPolicyInProject(projectId, policyId);
+
+    await this.prisma.slaPolicy.delete({ where: { id: policyId } });
+
+    return { message: 'SLA policy deleted successfully' };
+  }
+
+  private async findPolicyInProject(projectId: string, policyId: string) {
+    const policy = await this.prisma.slaPolicy.findFirst({
+      where: { id: policyId, projectId },
+    });
+
+    if (!policy) throw new NotFoundException('SLA policy not found');
+
+    return policy;
+  }
+
+  private async assertPriorityAvailable(
+    projectId: string,
+    priority: TicketPriority,
+  ) {
+    const existing = await this.prisma.slaPolicy.findUnique({
+      where: { projectId_priority: { projectId, priority } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `An SLA policy for ${priority} tickets already exists in this project`,
+      );
+    }
+  }
+
+  /** The policy as it will be saved. */
+  private async validateTargets(
+    projectId: string,
+    targets: {
+      responseMinutes?: number | null;
+      responseStatusId?: string | null;
+      resolutionMinutes?: number | null;
+    },
+  ) {
+    if (!targets.responseMinutes && !targets.resolutionMinutes) {
+      throw new BadRequestException(
+        'An SLA policy needs a response or a resolution target',
+      );
+    }
+
+    if (targets.responseMinutes && !targets.responseStatusId) {
+      throw new BadRequestException(
+        'A response target needs responseStatusId, the column that counts as a response',
+      );
+    }
+
+    if (targets.responseStatusId) {
+      const status = await this.prisma.status.findFirst({
+        where: { id: targets.responseStatusId, board: { projectId } },
+      });
+
+      if (!status) {
+        throw new NotFoundException('Status not found in this project');
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SlaPoliciesService } from './sla-policies.service';
+import { SlaService } from './sla.service';
+import { CreateSlaPolicyDto } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+import { SlaReportQueryDto } from './dto/sla-report-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class SlaController {
+  constructor(
+    private readonly slaPoliciesService: SlaPoliciesService,
+    private readonly slaService: SlaService,
+  ) {}
+
+  @Post(':projectId/sla-policies')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateSlaPolicyDto,
+  ) {
+    return this.slaPoliciesService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/sla-policies')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.slaPoliciesService.findAll(projectId, user.id);
+  }
+
+  @Patch(':projectId/sla-policies/:policyId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('policyId') policyId: string,
+    @Body() dto: UpdateSlaPolicyDto,
+  ) {
+    return this.slaPoliciesService.update(projectId, policyId, user.id, dto);
+  }
+
+  @Delete(':projectId/sla-policies/:policyId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('policyId') policyId: string,
+  ) {
+    return this.slaPoliciesService.remove(projectId, policyId, user.id);
+  }
+
+  @Get(':projectId/sla-report')
+  getReport(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Query() query: SlaReportQueryDto,
+  ) {
+    return this.slaService.getReport(projectId, user.id, query);
+  }
+}
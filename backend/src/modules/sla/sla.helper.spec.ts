@@ -0,0 +1,120 @@
+import { computeSlaTimer, formatMinutes, statusSpans } from './sla.helper';
+
+describe('sla helper', () => {
+  const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+  const created = at('09:00');
+
+  const move = (from: string, to: string, time: string) => ({
+    oldValue: from,
+    newValue: to,
+    createdAt: at(time),
+  });
+
+  const paused = (id: string) => id === 'waiting';
+  const resolved = (id: string) => id === 'done';
+
+  describe('statusSpans', () => {
+    it('starts in the column the first move left', () => {
+      expect(
+        statusSpans(created, 'done', [
+          move('todo', 'doing', '10:00'),
+          move('doing', 'done', '11:00'),
+        ]),
+      ).toEqual([
+        { statusId: 'todo', from: at('09:00'), to: at('10:00') },
+        { statusId: 'doing', from: at('10:00'), to: at('11:00') },
+        { statusId: 'done', from: at('11:00'), to: null },
+      ]);
+    });
+
+    it('uses the current column when the ticket never moved', () => {
+      expect(statusSpans(created, 'todo', [])).toEqual([
+        { statusId: 'todo', from: created, to: null },
+      ]);
+    });
+  });
+
+  describe('computeSlaTimer', () => {
+    it('counts down while running', () => {
+      const spans = statusSpans(created, 'todo', []);
+      const timer = computeSlaTimer(spans, 60, paused, resolved, at('09:40'));
+
+      expect(timer).toMatchObject({
+        state: 'running',
+        elapsedMinutes: 40,
+        remainingMinutes: 20,
+        breached: false,
+        dueAt: at('10:00'),
+      });
+    });
+
+    it('records when the target passed', () => {
+      const spans = statusSpans(created, 'todo', []);
+      const timer = computeSlaTimer(spans, 60, paused, resolved, at('10:30'));
+
+      expect(timer).toMatchObject({
+        state: 'running',
+        remainingMinutes: -30,
+        breached: true,
+        breachedAt: at('10:00'),
+        dueAt: null,
+      });
+    });
+
+    it('stops the clock in paused columns', () => {
+      const spans = statusSpans(created, 'doing', [
+        move('todo', 'waiting', '09:30'),
+        move('waiting', 'doing', '11:00'),
+      ]);
+      const timer = computeSlaTimer(spans, 60, paused, resolved, at('11:40'));
+
+      expect(timer).toMatchObject({
+        state: 'running',
+        elapsedMinutes: 70,
+        breachedAt: at('11:30'),
+      });
+
+      const waiting = statusSpans(created, 'waiting', [
+        move('todo', 'waiting', '09:30'),
+      ]);
+      expect(
+        computeSlaTimer(waiting, 60, paused, resolved, at('12:00')),
+      ).toMatchObject({ state: 'paused', remainingMinutes: 30, dueAt: null });
+    });
+
+    it('is met on first reaching a satisfying column, even if reopened', () => {
+      const spans = statusSpans(created, 'todo', [
+        move('todo', 'done', '09:50'),
+        move('done', 'todo', '10:00'),
+      ]);
+      const timer = computeSlaTimer(spans, 60, paused, resolved, at('12:00'));
+
+      expect(timer).toMatchObject({
+        state: 'met',
+        metAt: at('09:50'),
+        breached: false,
+        elapsedMinutes: 50,
+      });
+    });
+
+    it('keeps a breach when the target is met late', () => {
+      const spans = statusSpans(created, 'done', [
+        move('todo', 'done', '10:15'),
+      ]);
+
+      expect(
+        computeSlaTimer(spans, 60, paused, resolved, at('12:00')),
+      ).toMatchObject({
+        state: 'met',
+        breached: true,
+        breachedAt: at('10:00'),
+      });
+    });
+  });
+
+  it('formats targets in the largest whole unit', () => {
+    expect(formatMinutes(1440)).toBe('1 day');
+    expect(formatMinutes(240)).toBe('4 hours');
+    expect(formatMinutes(90)).toBe('90 minutes');
+  });
+});
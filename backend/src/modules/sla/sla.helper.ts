@@ -0,0 +1,122 @@
+/**
+ * SLA timers, replayed from a ticket's column history. A timer runs while
+ * the ticket sits in an ordinary column, stops in a column marked
+ * `slaPaused`, and is met the first time the ticket reaches a column that
+ * satisfies it. Time already spent is never given back.
+ */
+
+const MINUTE_MS = 60_000;
+
+export interface StatusMove {
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: Date;
+}
+
+/** A stretch of time spent in one column; `to` is null for the current one. */
+export interface StatusSpan {
+  statusId: string;
+  from: Date;
+  to: Date | null;
+}
+
+export type SlaTimerState = 'running' | 'paused' | 'met';
+
+export interface SlaTimer {
+  targetMinutes: number;
+  elapsedMinutes: number;
+  /** Negative once the target has passed. */
+  remainingMinutes: number;
+  state: SlaTimerState;
+  breached: boolean;
+  breachedAt: Date | null;
+  metAt: Date | null;
+  /** When the timer breaches if it keeps running; null unless running. */
+  dueAt: Date | null;
+}
+
+/**
+ * The columns a ticket has been in, oldest first. `moves` are its status
+ * change events in order; the first one's old value is where it started.
+ */
+export function statusSpans(
+  createdAt: Date,
+  currentStatusId: string,
+  moves: StatusMove[],
+): StatusSpan[] {
+  const spans: StatusSpan[] = [];
+  let statusId = moves[0]?.oldValue ?? currentStatusId;
+  let from = createdAt;
+
+  for (const move of moves) {
+    if (!move.newValue) continue;
+
+    spans.push({ statusId, from, to: move.createdAt });
+    statusId = move.newValue;
+    from = move.createdAt;
+  }
+
+  spans.push({ statusId, from, to: null });
+
+  return spans;
+}
+
+export function computeSlaTimer(
+  spans: StatusSpan[],
+  targetMinutes: number,
+  isPaused: (statusId: string) => boolean,
+  meetsTarget: (statusId: string) => boolean,
+  now: Date,
+): SlaTimer {
+  const targetMs = targetMinutes * MINUTE_MS;
+  let elapsedMs = 0;
+  let breachedAt: Date | null = null;
+  let metAt: Date | null = null;
+  let state: SlaTimerState = 'running';
+
+  for (const span of spans) {
+    if (meetsTarget(span.statusId)) {
+      metAt = span.from;
+      state = 'met';
+      break;
+    }
+
+    const paused = isPaused(span.statusId);
+    if (!span.to) state = paused ? 'paused' : 'running';
+    if (paused) continue;
+
+    const end = span.to ?? now;
+    const spent = Math.max(0, end.getTime() - span.from.getTime());
+
+    if (!breachedAt && elapsedMs + spent >= targetMs) {
+      breachedAt = new Date(span.from.getTime() + (targetMs - elapsedMs));
+    }
+    elapsedMs += spent;
+  }
+
+  return {
+    targetMinutes,
+    elapsedMinutes: Math.floor(elapsedMs / MINUTE_MS),
+    remainingMinutes: Math.ceil((targetMs - elapsedMs) / MINUTE_MS),
+    state,
+    breached: breachedAt !== null,
+    breachedAt,
+    metAt,
+    dueAt:
+      state === 'running' && !breachedAt
+        ? new Date(now.getTime() + targetMs - elapsedMs)
+        : null,
+  };
+}
+
+/** `1 day`, `4 hours`, `90 minutes`. */
+export function formatMinutes(minutes: number) {
+  const [amount, unit] =
+    minutes % 1440 === 0
+      ? [minutes / 1440, 'day']
+      : minutes % 60 === 0
+        ? [minutes / 60, 'hour']
+        : [minutes, 'minute'];
+
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
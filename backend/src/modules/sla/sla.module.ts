@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SlaService } from './sla.service';
+import { SlaPoliciesService } from './sla-policies.service';
+import { SlaController } from './sla.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [NotificationsModule],
+  controllers: [SlaController],
+  providers: [SlaService, SlaPoliciesService],
+  exports: [SlaService],
+})
+export class SlaModule {}
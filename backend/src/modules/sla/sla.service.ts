@@ -0,0 +1,348 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { formatTicketKey } from '../tickets/ticket-key.helper';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { SlaReportQueryDto } from './dto/sla-report-query.dto';
+import {
+  SlaTimer,
+  StatusMove,
+  computeSlaTimer,
+  formatMinutes,
+  statusSpans,
+} from './sla.helper';
+import {
+  NotificationType,
+  Role,
+  TicketEventType,
+  TicketPriority,
+} from 'src/generated/prisma/enums';
+import { Prisma, SlaPolicy } from 'src/generated/prisma/client';
+
+const SLA_TICKET_SELECT = {
+  id: true,
+  number: true,
+  title: true,
+  priority: true,
+  createdAt: true,
+  updatedAt: true,
+  statusId: true,
+  assigneeId: true,
+  projectId: true,
+  slaResponseBreachedAt: true,
+  slaResolutionBreachedAt: true,
+} as const;
+
+type SlaTicket = Prisma.TicketGetPayload<{ select: typeof SLA_TICKET_SELECT }>;
+
+type SlaTarget = 'response' | 'resolution';
+
+export interface TicketSla {
+  policyId: string;
+  response: SlaTimer | null;
+  resolution: SlaTimer | null;
+}
+
+/** A project's policies by priority, and its columns by id. */
+interface SlaContext {
+  policies: Map<TicketPriority, SlaPolicy>;
+  columns: Map<string, { rank: string; isDone: boolean; slaPaused: boolean }>;
+}
+
+/**
+ * Works out each ticket's SLA timers from its policy and column history,
+ * reports the tickets that breached or are about to, and records and
+ * announces breaches as they happen.
+ */
+@Injectable()
+export class SlaService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /** Null when no policy covers the ticket's priority. */
+  async computeForTicket(ticket: {
+    id: string;
+    projectId: string;
+    priority: TicketPriority;
+    createdAt: Date;
+    statusId: string;
+  }): Promise<TicketSla | null> {
+    const context = await this.loadContext(ticket.projectId);
+    if (!context.policies.has(ticket.priority)) return null;
+
+    const moves = await this.loadMoves([ticket.id]);
+
+    return this.timers(ticket, moves.get(ticket.id) ?? [], context, new Date());
+  }
+
+  /**
+   * Open tickets whose SLA is breached, and those with a running or paused
+   * timer close to its target, least time left first. A response breach
+   * keeps a ticket in `breached` until it is resolved.
+   */
+  async getReport(projectId: string, userId: string, query: SlaReportQueryDto) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const context = await this.loadContext(projectId);
+    const now = new Date();
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: {
+        projectId,
+        deletedAt: null,
+        status: { isDone: false },
+        priority: { in: [...context.policies.keys()] },
+      },
+      select: {
+        ...SLA_TICKET_SELECT,
+        project: { select: { key: true } },
+        status: { select: { id: true, name: true } },
+        assignee: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+      },
+    });
+    const moves = await this.loadMoves(tickets.map((t) => t.id));
+
+    const entries = tickets.map((ticket) => {
+      const sla = this.timers(ticket, moves.get(ticket.id) ?? [], context, now);
+      const open = [sla.response, sla.resolution].filter(
+        (timer): timer is SlaTimer => timer !== null && timer.state !== 'met',
+      );
+
+      return {
+        id: ticket.id,
+        key: formatTicketKey(ticket.project.key, ticket.number),
+        title: ticket.title,
+        priority: ticket.priority,
+        status: ticket.status,
+        assignee: ticket.assignee,
+        sla,
+        // The least time left on a timer still counting, if any is
+        remainingMinutes:
+          open.length > 0
+            ? Math.min(...open.map((timer) => timer.remainingMinutes))
+            : null,
+      };
+    });
+    type Entry = (typeof entries)[number];
+
+    const isBreached = ({ sla }: Entry) =>
+      !!sla.response?.breached || !!sla.resolution?.breached;
+    const isAtRisk = ({ sla }: Entry) =>
+      [sla.response, sla.resolution].some(
+        (timer) =>
+          timer &&
+          timer.state !== 'met' &&
+          timer.remainingMinutes <=
+            (query.atRiskMinutes ?? timer.targetMinutes / 4),
+      );
+    // Entries with nothing left counting go last
+    const byRemaining = (a: Entry, b: Entry) => {
+      if (a.remainingMinutes === null)
+        return b.remainingMinutes === null ? 0 : 1;
+      if (b.remainingMinutes === null) return -1;
+      return a.remainingMinutes - b.remainingMinutes;
+    };
+
+    return {
+      breached: entries.filter(isBreached).sort(byRemaining),
+      atRisk: entries
+        .filter((entry) => !isBreached(entry) && isAtRisk(entry))
+        .sort(byRemaining),
+    };
+  }
+
+  /**
+   * Records new breaches on open tickets and tells the assignee, watchers,
+   * and project admins. Each breach is claimed with a conditional update
+   * first, so it is announced once however many instances run.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async detectBreaches() {
+    const policies = await this.prisma.slaPolicy.findMany();
+    const now = new Date();
+
+    for (const projectId of new Set(policies.map((p) => p.projectId))) {
+      const context = await this.loadContext(projectId);
+
+      // Open tickets with a target not yet recorded as breached
+      const tickets = await this.prisma.ticket.findMany({
+        where: {
+          projectId,
+          deletedAt: null,
+          status: { isDone: false },
+          priority: { in: [...context.policies.keys()] },
+          OR: [
+            { slaResponseBreachedAt: null },
+            { slaResolutionBreachedAt: null },
+          ],
+        },
+        select: SLA_TICKET_SELECT,
+      });
+      if (tickets.length === 0) continue;
+
+      const moves = await this.loadMoves(tickets.map((t) => t.id));
+
+      for (const ticket of tickets) {
+        const sla = this.timers(
+          ticket,
+          moves.get(ticket.id) ?? [],
+          context,
+          now,
+        );
+
+        if (sla.response?.breached && !ticket.slaResponseBreachedAt) {
+          await this.recordBreach(ticket, 'response', sla.response);
+        }
+        if (sla.resolution?.breached && !ticket.slaResolutionBreachedAt) {
+          await this.recordBreach(ticket, 'resolution', sla.resolution);
+        }
+      }
+    }
+  }
+
+  private async recordBreach(
+    ticket: SlaTicket,
+    target: SlaTarget,
+    timer: SlaTimer,
+  ) {
+    const field =
+      target === 'response'
+        ? 'slaResponseBreachedAt'
+        : 'slaResolutionBreachedAt';
+
+    // Keeps `updatedAt` as it was: a breach isn't an edit
+    const { count } = await this.prisma.ticket.updateMany({
+      where: { id: ticket.id, [field]: null },
+      data: { [field]: timer.breachedAt, updatedAt: ticket.updatedAt },
+    });
+    if (count === 0) return;
+
+    const [project, watchers, admins] = await Promise.all([
+      this.prisma.project.findUnique({
+        where: { id: ticket.projectId },
+        select: { key: true },
+      }),
+      this.prisma.ticketWatcher.findMany({
+        where: { ticketId: ticket.id },
+        select: { userId: true },
+      }),
+      this.prisma.projectMember.findMany({
+        where: {
+          projectId: ticket.projectId,
+          role: { in: [Role.OWNER, Role.ADMIN] },
+        },
+        select: { userId: true },
+      }),
+    ]);
+
+    await this.notificationsService.send(
+      [
+        ticket.assigneeId,
+        ...watchers.map((w) => w.userId),
+        ...admins.map((a) => a.userId),
+      ],
+      {
+        type: NotificationType.SLA_BREACHED,
+        message: `${formatTicketKey(project!.key, ticket.number)} "${ticket.title}" breached its ${formatMinutes(timer.targetMinutes)} ${target} SLA`,
+        ticketId: ticket.id,
+      },
+    );
+  }
+
+  /**
+   * A response is met on first reaching the response column, a column to
+   * its right, or a done column; a resolution on first reaching a done
+   * column. A response target without a response column (it was deleted)
+   * is ignored.
+   */
+  private timers(
+    ticket: Pick<
+      SlaTicket,
+      'id' | 'priority' | 'createdAt' | 'statusId' | 'projectId'
+    >,
+    moves: StatusMove[],
+    context: SlaContext,
+    now: Date,
+  ): TicketSla {
+    const policy = context.policies.get(ticket.priority)!;
+    const spans = statusSpans(ticket.createdAt, ticket.statusId, moves);
+    const column = (statusId: string) => context.columns.get(statusId);
+    const isPaused = (statusId: string) => !!column(statusId)?.slaPaused;
+    const isDone = (statusId: string) => !!column(statusId)?.isDone;
+
+    const responseRank =
+      policy.responseStatusId &&
+      context.columns.get(policy.responseStatusId)?.rank;
+
+    return {
+      policyId: policy.id,
+      response:
+        policy.responseMinutes && responseRank
+          ? computeSlaTimer(
+              spans,
+              policy.responseMinutes,
+              isPaused,
+              (statusId) =>
+                isDone(statusId) ||
+                (column(statusId)?.rank ?? '') >= responseRank,
+              now,
+            )
+          : null,
+      resolution: policy.resolutionMinutes
+        ? computeSlaTimer(
+            spans,
+            policy.resolutionMinutes,
+            isPaused,
+            isDone,
+            now,
+          )
+        : null,
+    };
+  }
+
+  private async loadContext(projectId: string): Promise<SlaContext> {
+    const [policies, columns] = await Promise.all([
+      this.prisma.slaPolicy.findMany({ where: { projectId } }),
+      this.prisma.status.findMany({
+        where: { board: { projectId } },
+        select: { id: true, rank: true, isDone: true, slaPaused: true },
+      }),
+    ]);
+
+    return {
+      policies: new Map(policies.map((p) => [p.priority, p])),
+      columns: new Map(columns.map(({ id, ...column }) => [id, column])),
+    };
+  }
+
+  /** Each ticket's column changes, oldest first. */
+  private async loadMoves(ticketIds: string[]) {
+    const events = await this.prisma.ticketEvent.findMany({
+      where: {
+        ticketId: { in: ticketIds },
+        type: TicketEventType.MOVED,
+        field: 'statusId',
+      },
+      select: {
+        ticketId: true,
+        oldValue: true,
+        newValue: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const moves = new Map<string, StatusMove[]>();
+    for (const { ticketId, ...move } of events) {
+      if (!moves.has(ticketId)) moves.set(ticketId, []);
+      moves.get(ticketId)!.push(move);
+    }
+
+    return moves;
+  }
+}
@@ -0,0 +1,7 @@
+import { IsUUID, IsOptional } from 'class-validator';
+
+export class CompleteSprintDto {
+  @IsUUID()
+  @IsOptional()
+  carryOverSprintId?: string;
+}
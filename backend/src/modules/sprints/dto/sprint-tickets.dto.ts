@@ -0,0 +1,9 @@
+import { ArrayNotEmpty, ArrayMaxSize, IsArray, IsUUID } from 'class-validator';
+
+export class SprintTicketsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  ticketIds: string[];
+}
@@ -0,0 +1,21 @@
+import { IsString, IsOptional, IsDateString, MaxLength } from 'class-validator';
+
+export class UpdateSprintDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  goal?: string;
+
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+}
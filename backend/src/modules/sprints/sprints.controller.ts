@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SprintsService } from './sprints.service';
+import { CreateSprintDto } from './dto/create-sprint.dto';
+import { UpdateSprintDto } from './dto/update-sprint.dto';
+import { CompleteSprintDto } from './dto/complete-sprint.dto';
+import { SprintTicketsDto } from './dto/sprint-tickets.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class SprintsController {
+  constructor(private readonly sprintsService: SprintsService) {}
+
+  @Post(':projectId/sprints')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateSprintDto,
+  ) {
+    return this.sprintsService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/sprints')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.sprintsService.findAll(projectId, user.id);
+  }
+
+  @Get(':projectId/sprints/:sprintId')
+  findOne(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+  ) {
+    return this.sprintsService.findOne(projectId, sprintId, user.id);
+  }
+
+  @Patch(':projectId/sprints/:sprintId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+    @Body() dto: UpdateSprintDto,
+  ) {
+    return this.sprintsService.update(projectId, sprintId, user.id, dto);
+  }
+
+  @Delete(':projectId/sprints/:sprintId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+  ) {
+    return this.sprintsService.remove(projectId, sprintId, user.id);
+  }
+
+  @Post(':projectId/sprints/:sprintId/start')
+  @HttpCode(HttpStatus.OK)
+  start(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+  ) {
+    return this.sprintsService.start(projectId, sprintId, user.id);
+  }
+
+  @Post(':projectId/sprints/:sprintId/complete')
+  @HttpCode(HttpStatus.OK)
+  complete(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+    @Body() dto: CompleteSprintDto,
+  ) {
+    return this.sprintsService.complete(projectId, sprintId, user.id, dto);
+  }
+
+  @Post(':projectId/sprints/:sprintId/tickets')
+  @HttpCode(HttpStatus.OK)
+  addTickets(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+    @Body() dto: SprintTicketsDto,
+  ) {
+    return this.sprintsService.addTickets(projectId, sprintId, user.id, dto);
+  }
+
+  @Delete(':projectId/sprints/:sprintId/tickets/:ticketId')
+  @HttpCode(HttpStatus.OK)
+  removeTicket(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('sprintId') sprintId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.sprintsService.removeTicket(
+      projectId,
+      sprintId,
+      ticketId,
+      user.id,
+    );
+  }
+}
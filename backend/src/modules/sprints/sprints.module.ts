@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SprintsService } from './sprints.service';
+import { SprintsController } from './sprints.controller';
+import { ActivityModule } from '../activity/activity.module';
+
+@Module({
+  imports: [ActivityModule],
+  controllers: [SprintsController],
+  providers: [SprintsService],
+})
+export class SprintsModule {}
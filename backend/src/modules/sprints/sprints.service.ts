@@ -0,0 +1,364 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateSprintDto } from './dto/create-sprint.dto';
+import { UpdateSprintDto } from './dto/update-sprint.dto';
+import { CompleteSprintDto } from './dto/complete-sprint.dto';
+import { SprintTicketsDto } from './dto/sprint-tickets.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role, SprintState, TicketEventType } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { ActivityService } from '../activity/activity.service';
+
+@Injectable()
+export class SprintsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly activityService: ActivityService,
+  ) {}
+
+  async create(projectId: string, userId: string, dto: CreateSprintDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    this.validateDates(dto.startDate, dto.endDate);
+
+    return this.prisma.sprint.create({
+      data: {
+        name: dto.name,
+        goal: dto.goal,
+        startDate: dto.startDate ? new Date(dto.startDate) : undefined,
+        endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+        projectId,
+      },
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.sprint.findMany({
+      where: { projectId },
+      include: {
+        _count: { select: { tickets: { where: { deletedAt: null } } } },
+      },
+      orderBy: [{ state: 'asc' }, { startDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findOne(projectId: string, sprintId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const sprint = await this.prisma.sprint.findFirst({
+      where: { id: sprintId, projectId },
+      include: {
+        tickets: {
+          where: { deletedAt: null },
+          include: {
+            status: true,
+            assignee: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+          orderBy: { number: 'asc' },
+        },
+      },
+    });
+
+    if (!sprint) throw new NotFoundException('Sprint not found');
+
+    return sprint;
+  }
+
+  async update(
+    projectId: string,
+    sprintId: string,
+    userId: string,
+    dto: UpdateSprintDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const sprint = await this.findSprintInProject(projectId, sprintId);
+
+    if (sprint.state === SprintState.CLOSED) {
+      throw new BadRequestException('A closed sprint cannot be edited');
+    }
+
+    this.validateDates(
+      dto.startDate ?? sprint.startDate?.toISOString(),
+      dto.endDate ?? sprint.endDate?.toISOString(),
+    );
+
+    return this.prisma.sprint.update({
+      where: { id: sprintId },
+      data: {
+        ...dto,
+        startDate: dto.startDate ? new Date(dto.startDate) : undefined,
+        endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+      },
+    });
+  }
+
+  async remove(projectId: string, sprintId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const sprint = await this.findSprintInProject(projectId, sprintId);
+
+    if (sprint.state !== SprintState.PLANNED) {
+      throw new BadRequestException(
+        'Only planned sprints can be deleted. Complete an active sprint instead.',
+      );
+    }
+
+    await this.prisma.sprint.delete({ where: { id: sprintId } });
+
+    return { message: 'Sprint deleted successfully' };
+  }
+
+  /**
+   * The check for an active sprint gives a friendly error; the partial
+   * unique index on active sprints settles two concurrent starts.
+   */
+  async start(projectId: string, sprintId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const sprint = await tx.sprint.findFirst({
+          where: { id: sprintId, projectId },
+        });
+
+        if (!sprint) throw new NotFoundException('Sprint not found');
+
+        if (sprint.state !== SprintState.PLANNED) {
+          throw new BadRequestException('Only planned sprints can be started');
+        }
+
+        const active = await tx.sprint.findFirst({
+          where: { projectId, state: SprintState.ACTIVE },
+        });
+
+        if (active) {
+          throw new ConflictException(
+            `Sprint "${active.name}" is already active. Complete it first.`,
+          );
+        }
+
+        return tx.sprint.update({
+          where: { id: sprintId },
+          data: {
+            state: SprintState.ACTIVE,
+            startDate: sprint.startDate ?? new Date(),
+          },
+        });
+      });
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Another sprint is already active. Complete it first.',
+        );
+      }
+      throw err;
+    }
+  }
+
+  async complete(
+    projectId: string,
+    sprintId: string,
+    userId: string,
+    dto: CompleteSprintDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const sprint = await this.findSprintInProject(projectId, sprintId);
+
+    if (sprint.state !== SprintState.ACTIVE) {
+      throw new BadRequestException('Only the active sprint can be completed');
+    }
+
+    if (dto.carryOverSprintId) {
+      const next = await this.findSprintInProject(
+        projectId,
+        dto.carryOverSprintId,
+      );
+
+      if (next.state !== SprintState.PLANNED) {
+        throw new BadRequestException(
+          'Unfinished tickets can only be carried over to a planned sprint',
+        );
+      }
+    }
+
+    const carryOverSprintId = dto.carryOverSprintId ?? null;
+
+    return this.prisma.$transaction(async (tx) => {
+      const unfinished = await tx.ticket.findMany({
+        where: { sprintId, deletedAt: null, status: { isDone: false } },
+        select: { id: true },
+      });
+
+      await tx.ticket.updateMany({
+        where: { id: { in: unfinished.map((t) => t.id) } },
+        data: { sprintId: carryOverSprintId, version: { increment: 1 } },
+      });
+
+      for (const { id } of unfinished) {
+        await this.activityService.record(tx, id, userId, [
+          {
+            type: TicketEventType.UPDATED,
+            field: 'sprintId',
+            oldValue: sprintId,
+            newValue: carryOverSprintId,
+          },
+        ]);
+      }
+
+      const closed = await tx.sprint.update({
+        where: { id: sprintId },
+        data: {
+          state: SprintState.CLOSED,
+          completedAt: new Date(),
+          endDate: sprint.endDate ?? new Date(),
+        },
+      });
+
+      const completedCount = await tx.ticket.count({
+        where: { sprintId, deletedAt: null },
+      });
+
+      return {
+        sprint: closed,
+        completedTickets: completedCount,
+        carriedOverTickets: unfinished.length,
+        carriedOverTo: carryOverSprintId,
+      };
+    });
+  }
+
+  async addTickets(
+    projectId: string,
+    sprintId: string,
+    userId: string,
+    dto: SprintTicketsDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const sprint = await this.findSprintInProject(projectId, sprintId);
+
+    if (sprint.state === SprintState.CLOSED) {
+      throw new BadRequestException(
+        'Tickets cannot be added to a closed sprint',
+      );
+    }
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: { id: { in: dto.ticketIds }, projectId, deletedAt: null },
+      select: { id: true, sprintId: true },
+    });
+
+    if (tickets.length !== new Set(dto.ticketIds).size) {
+      throw new BadRequestException(
+        'All tickets must exist and belong to this project',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.ticket.updateMany({
+        where: {
+          id: { in: dto.ticketIds },
+          sprintId: { not: sprintId },
+        },
+        data: { sprintId, version: { increment: 1 } },
+      });
+
+      for (const ticket of tickets.filter((t) => t.sprintId !== sprintId)) {
+        await this.activityService.record(tx, ticket.id, userId, [
+          {
+            type: TicketEventType.UPDATED,
+            field: 'sprintId',
+            oldValue: ticket.sprintId,
+            newValue: sprintId,
+          },
+        ]);
+      }
+    });
+
+    return this.findOne(projectId, sprintId, userId);
+  }
+
+  async removeTicket(
+    projectId: string,
+    sprintId: string,
+    ticketId: string,
+    userId: string,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const sprint = await this.findSprintInProject(projectId, sprintId);
+
+    if (sprint.state === SprintState.CLOSED) {
+      throw new BadRequestException(
+        'Tickets cannot be removed from a closed sprint',
+      );
+    }
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, sprintId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found in this sprint');
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.ticket.update({
+        where: { id: ticketId },
+        data: { sprintId: null, version: { increment: 1 } },
+      });
+
+      await this.activityService.record(tx, ticketId, userId, [
+        {
+          type: TicketEventType.UPDATED,
+          field: 'sprintId',
+          oldValue: sprintId,
+          newValue: null,
+        },
+      ]);
+    });
+
+    return { message: 'Ticket moved to the backlog' };
+  }
+
+  private async findSprintInProject(projectId: string, sprintId: string) {
+    const sprint = await this.prisma.sprint.findFirst({
+      where: { id: sprintId, projectId },
+    });
+
+    if (!sprint) throw new NotFoundException('Sprint not found');
+
+    return sprint;
+  }
+
+  private validateDates(startDate?: string, endDate?: string) {
+    if (startDate && endDate && new Date(endDate) <= new Date(startDate)) {
+      throw new BadRequestException('Sprint end date must be after its start');
+    }
+  }
+}
@@ -22,6 +22,7 @@ export class CreateStatusDto {
   })
   color?: string;
 
+  /** Zero-based position on the board, left to right. */
   @IsInt()
   @Min(0)
   order: number;
@@ -29,4 +30,19 @@ export class CreateStatusDto {
   @IsBoolean()
   @IsOptional()
   isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isDone?: boolean;
+
+  /** SLA timers stop while a ticket is in the column, e.g. Waiting on customer. */
+  @IsBoolean()
+  @IsOptional()
+  slaPaused?: boolean;
+
+  /** Max live tickets in the column. */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  wipLimit?: number;
 }
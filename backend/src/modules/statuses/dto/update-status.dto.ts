@@ -21,6 +21,7 @@ export class UpdateStatusDto {
   })
   color?: string;
 
+  /** Zero-based position among the board's other columns. */
   @IsInt()
   @IsOptional()
   @Min(0)
@@ -29,4 +30,19 @@ export class UpdateStatusDto {
   @IsBoolean()
   @IsOptional()
   isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isDone?: boolean;
+
+  /** SLA timers stop while a ticket is in the column, e.g. Waiting on customer. */
+  @IsBoolean()
+  @IsOptional()
+  slaPaused?: boolean;
+
+  /** Max live tickets in the column; `null` removes the limit. */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  wipLimit?: number | null;
 }
@@ -6,6 +6,7 @@ import {
   Body,
   Param,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -14,9 +15,12 @@ import { CreateStatusDto } from './dto/create-status.dto';
 import { UpdateStatusDto } from './dto/update-status.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
 
 @Controller({ path: 'projects', version: '1' })
 @UseGuards(JwtAuthGuard)
+@UseInterceptors(ETagInterceptor)
 export class StatusesController {
   constructor(private readonly statusesService: StatusesService) {}
 
@@ -35,8 +39,15 @@ export class StatusesController {
     @Param('projectId') projectId: string,
     @Param('statusId') statusId: string,
     @Body() dto: UpdateStatusDto,
+    @IfMatch() expectedVersion?: number,
   ) {
-    return this.statusesService.update(projectId, statusId, user.id, dto);
+    return this.statusesService.update(
+      projectId,
+      statusId,
+      user.id,
+      dto,
+      expectedVersion,
+    );
   }
 
   @Delete(':projectId/statuses/:statusId')
@@ -11,7 +11,14 @@ import {
   getProjectMember,
   assertRole,
 } from '../../common/helpers/project-access.helper';
+import { versionConflict } from '../../common/helpers/concurrency.helper';
 import { Role } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import {
+  REBALANCE_RANK_LENGTH,
+  evenRanks,
+  rankBetween,
+} from '../../common/helpers/rank.helper';
 
 @Injectable()
 export class StatusesService {
@@ -34,21 +41,26 @@ export class StatusesService {
       );
     }
 
-    if (dto.isDefault) {
-      await this.prisma.status.updateMany({
-        where: { boardId: board.id, isDefault: true },
-        data: { isDefault: false },
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.status.updateMany({
+          where: { boardId: board.id, isDefault: true },
+          data: { isDefault: false, version: { increment: 1 } },
+        });
+      }
+
+      return tx.status.create({
+        data: {
+          name: dto.name,
+          color: dto.color,
+          rank: await this.rankAt(tx, board.id, dto.order),
+          isDefault: dto.isDefault ?? false,
+          isDone: dto.isDone ?? false,
+          slaPaused: dto.slaPaused ?? false,
+          wipLimit: dto.wipLimit,
+          boardId: board.id,
+        },
       });
-    }
-
-    return this.prisma.status.create({
-      data: {
-        name: dto.name,
-        color: dto.color,
-        order: dto.order,
-        isDefault: dto.isDefault ?? false,
-        boardId: board.id,
-      },
     });
   }
 
@@ -57,22 +69,53 @@ export class StatusesService {
     statusId: string,
     userId: string,
     dto: UpdateStatusDto,
+    expectedVersion?: number,
   ) {
     const member = await getProjectMember(this.prisma, projectId, userId);
     assertRole(member.role, Role.ADMIN);
 
     const status = await this.findStatusInProject(projectId, statusId);
 
-    if (dto.isDefault) {
-      await this.prisma.status.updateMany({
-        where: { boardId: status.boardId, isDefault: true },
-        data: { isDefault: false },
-      });
+    if (expectedVersion !== undefined && expectedVersion !== status.version) {
+      throw versionConflict(status);
     }
 
-    return this.prisma.status.update({
-      where: { id: statusId },
-      data: dto,
+    const { order, ...fields } = dto;
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.status.updateMany({
+          where: {
+            boardId: status.boardId,
+            isDefault: true,
+            id: { not: statusId },
+          },
+          data: { isDefault: false, version: { increment: 1 } },
+        });
+      }
+
+      // Re-checked in the write itself in case someone else got in first
+      const { count } = await tx.status.updateMany({
+        where: {
+          id: statusId,
+          ...(expectedVersion !== undefined && { version: expectedVersion }),
+        },
+        data: {
+          ...fields,
+          ...(order !== undefined && {
+            rank: await this.rankAt(tx, status.boardId, order, statusId),
+          }),
+          version: { increment: 1 },
+        },
+      });
+
+      const current = await tx.status.findUniqueOrThrow({
+        where: { id: statusId },
+      });
+
+      if (count === 0) throw versionConflict(current);
+
+      return current;
     });
   }
 
@@ -83,7 +126,7 @@ export class StatusesService {
     const status = await this.findStatusInProject(projectId, statusId);
 
     const ticketCount = await this.prisma.ticket.count({
-      where: { statusId },
+      where: { statusId, deletedAt: null },
     });
 
     if (ticketCount > 0) {
@@ -92,11 +135,66 @@ export class StatusesService {
       );
     }
 
+    // Trashed tickets still reference their column
+    const trashedCount = await this.prisma.ticket.count({
+      where: { statusId, deletedAt: { not: null } },
+    });
+
+    if (trashedCount > 0) {
+      throw new BadRequestException(
+        `Cannot delete a column with ${trashedCount} ticket(s) in the trash. Restore and move them, or purge them first.`,
+      );
+    }
+
     await this.prisma.status.delete({ where: { id: statusId } });
 
     return { message: 'Status deleted successfully' };
   }
 
+  /**
+   * A rank that puts a column at zero-based `position` on the board,
+   * leaving `statusId` itself out when it is being moved. Boards only have
+   * a handful of columns, so when ranks get long they are spread out on
+   * the spot rather than in the background.
+   */
+  private async rankAt(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    position: number,
+    statusId?: string,
+  ) {
+    // Serializes column moves on the board; nothing is written to it
+    await tx.$queryRaw`SELECT "id" FROM "boards" WHERE "id" = ${boardId} FOR UPDATE`;
+
+    const others = await tx.status.findMany({
+      where: { boardId, ...(statusId && { id: { not: statusId } }) },
+      orderBy: [{ rank: 'asc' }, { id: 'asc' }],
+      select: { id: true, rank: true },
+    });
+
+    const index = Math.min(position, others.length);
+    const before = others[index - 1]?.rank ?? null;
+    const after = others[index]?.rank ?? null;
+
+    if (before === null || after === null || before < after) {
+      const rank = rankBetween(before, after);
+      if (rank.length <= REBALANCE_RANK_LENGTH) return rank;
+    }
+
+    // Spread the other columns out, leaving a slot at the position
+    const ranks = evenRanks(others.length + 1);
+
+    for (const [i, other] of others.entries()) {
+      const rank = ranks[i < index ? i : i + 1];
+
+      if (other.rank !== rank) {
+        await tx.status.update({ where: { id: other.id }, data: { rank } });
+      }
+    }
+
+    return ranks[index];
+  }
+
   private async findStatusInProject(projectId: string, statusId: string) {
     const board = await this.prisma.board.findUnique({ where: { projectId } });
     if (!board) throw new NotFoundException('Board not found');
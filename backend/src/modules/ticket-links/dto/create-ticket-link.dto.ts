@@ -0,0 +1,22 @@
+import { IsIn, IsNotEmpty, IsUUID } from 'class-validator';
+
+export const TICKET_LINK_KINDS = [
+  'BLOCKS',
+  'IS_BLOCKED_BY',
+  'RELATES_TO',
+  'DUPLICATES',
+  'IS_DUPLICATED_BY',
+] as const;
+
+export type TicketLinkKind = (typeof TICKET_LINK_KINDS)[number];
+
+export class CreateTicketLinkDto {
+  @IsIn(TICKET_LINK_KINDS, {
+    message: `type must be one of: ${TICKET_LINK_KINDS.join(', ')}`,
+  })
+  type: TicketLinkKind;
+
+  @IsUUID()
+  @IsNotEmpty()
+  targetTicketId: string;
+}
@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TicketLinksService } from './ticket-links.service';
+import { CreateTicketLinkDto } from './dto/create-ticket-link.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class TicketLinksController {
+  constructor(private readonly ticketLinksService: TicketLinksService) {}
+
+  @Post(':projectId/tickets/:ticketId/links')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Body() dto: CreateTicketLinkDto,
+  ) {
+    return this.ticketLinksService.create(projectId, ticketId, user.id, dto);
+  }
+
+  @Delete(':projectId/tickets/:ticketId/links/:linkId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('linkId') linkId: string,
+  ) {
+    return this.ticketLinksService.remove(projectId, ticketId, linkId, user.id);
+  }
+}
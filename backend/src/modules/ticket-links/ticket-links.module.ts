@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { TicketLinksService } from './ticket-links.service';
+import { TicketLinksController } from './ticket-links.controller';
+
+@Module({
+  controllers: [TicketLinksController],
+  providers: [TicketLinksService],
+})
+export class TicketLinksModule {}
@@ -0,0 +1,177 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { TicketLinkType } from 'src/generated/prisma/enums';
+import {
+  CreateTicketLinkDto,
+  TicketLinkKind,
+} from './dto/create-ticket-link.dto';
+
+const LINKED_TICKET_SELECT = {
+  id: true,
+  number: true,
+  title: true,
+  projectId: true,
+  project: { select: { key: true } },
+  status: { select: { id: true, name: true, color: true } },
+} as const;
+
+const INVERSE_KINDS: Partial<Record<TicketLinkKind, TicketLinkType>> = {
+  IS_BLOCKED_BY: TicketLinkType.BLOCKS,
+  IS_DUPLICATED_BY: TicketLinkType.DUPLICATES,
+};
+
+@Injectable()
+export class TicketLinksService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    dto: CreateTicketLinkDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    if (dto.targetTicketId === ticketId) {
+      throw new BadRequestException('A ticket cannot be linked to itself');
+    }
+
+    const target = await this.prisma.ticket.findFirst({
+      where: { id: dto.targetTicketId, deletedAt: null },
+    });
+
+    if (!target) throw new NotFoundException('Target ticket not found');
+
+    if (target.projectId !== projectId) {
+      await getProjectMember(this.prisma, target.projectId, userId);
+    }
+
+    const inverseType = INVERSE_KINDS[dto.type];
+    const type = inverseType ?? (dto.type as TicketLinkType);
+    const [sourceTicketId, targetTicketId] = inverseType
+      ? [target.id, ticket.id]
+      : [ticket.id, target.id];
+
+    await this.assertNotLinked(sourceTicketId, targetTicketId, type);
+
+    if (
+      type === TicketLinkType.BLOCKS &&
+      (await this.isBlockedBy(sourceTicketId, targetTicketId))
+    ) {
+      throw new BadRequestException(
+        'This link would create a cycle of blocking tickets',
+      );
+    }
+
+    return this.prisma.ticketLink.create({
+      data: { type, sourceTicketId, targetTicketId, createdById: userId },
+      include: {
+        source: { select: LINKED_TICKET_SELECT },
+        target: { select: LINKED_TICKET_SELECT },
+      },
+    });
+  }
+
+  async remove(
+    projectId: string,
+    ticketId: string,
+    linkId: string,
+    userId: string,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const link = await this.prisma.ticketLink.findFirst({
+      where: {
+        id: linkId,
+        OR: [{ sourceTicketId: ticketId }, { targetTicketId: ticketId }],
+      },
+    });
+
+    if (!link) throw new NotFoundException('Link not found');
+
+    await this.prisma.ticketLink.delete({ where: { id: linkId } });
+
+    return { message: 'Link deleted successfully' };
+  }
+
+  private async assertNotLinked(
+    sourceTicketId: string,
+    targetTicketId: string,
+    type: TicketLinkType,
+  ) {
+    const existing = await this.prisma.ticketLink.findFirst({
+      where: {
+        type,
+        OR: [
+          { sourceTicketId, targetTicketId },
+          // "relates to" has no direction, so the reverse pair is the same link
+          ...(type === TicketLinkType.RELATES_TO
+            ? [
+                {
+                  sourceTicketId: targetTicketId,
+                  targetTicketId: sourceTicketId,
+                },
+              ]
+            : []),
+        ],
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException('These tickets are already linked');
+    }
+  }
+
+  /**
+   * Walks the "blocks" graph outward from `blockerId` looking for
+   * `ticketId`. If it is reachable, `ticketId` already (transitively)
+   * blocks `blockerId` — adding the reverse edge would close a cycle.
+   */
+  private async isBlockedBy(
+    ticketId: string,
+    blockerId: string,
+  ): Promise<boolean> {
+    const visited = new Set<string>([blockerId]);
+    let frontier = [blockerId];
+
+    while (frontier.length > 0) {
+      const edges = await this.prisma.ticketLink.findMany({
+        where: {
+          type: TicketLinkType.BLOCKS,
+          sourceTicketId: { in: frontier },
+        },
+        select: { targetTicketId: true },
+      });
+
+      frontier = [];
+
+      for (const { targetTicketId } of edges) {
+        if (targetTicketId === ticketId) return true;
+        if (!visited.has(targetTicketId)) {
+          visited.add(targetTicketId);
+          frontier.push(targetTicketId);
+        }
+      }
+    }
+
+    return false;
+  }
+}
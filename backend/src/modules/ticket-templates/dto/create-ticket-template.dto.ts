@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+
+export class CreateTicketTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  /** Prefilled description, e.g. a bug report skeleton. */
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+}
@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+
+/** `null` removes a default; `labelIds` replaces the template's labels. */
+export class UpdateTicketTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string | null;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType | null;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority | null;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string | null;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+}
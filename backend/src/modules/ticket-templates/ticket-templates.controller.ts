@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TicketTemplatesService } from './ticket-templates.service';
+import { CreateTicketTemplateDto } from './dto/create-ticket-template.dto';
+import { UpdateTicketTemplateDto } from './dto/update-ticket-template.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class TicketTemplatesController {
+  constructor(
+    private readonly ticketTemplatesService: TicketTemplatesService,
+  ) {}
+
+  @Post(':projectId/ticket-templates')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateTicketTemplateDto,
+  ) {
+    return this.ticketTemplatesService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/ticket-templates')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.ticketTemplatesService.findAll(projectId, user.id);
+  }
+
+  @Get(':projectId/ticket-templates/:templateId')
+  findOne(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.ticketTemplatesService.findOne(projectId, templateId, user.id);
+  }
+
+  @Patch(':projectId/ticket-templates/:templateId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('templateId') templateId: string,
+    @Body() dto: UpdateTicketTemplateDto,
+  ) {
+    return this.ticketTemplatesService.update(
+      projectId,
+      templateId,
+      user.id,
+      dto,
+    );
+  }
+
+  @Delete(':projectId/ticket-templates/:templateId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.ticketTemplatesService.remove(projectId, templateId, user.id);
+  }
+}
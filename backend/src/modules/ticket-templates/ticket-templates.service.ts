@@ -0,0 +1,222 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateTicketTemplateDto } from './dto/create-ticket-template.dto';
+import { UpdateTicketTemplateDto } from './dto/update-ticket-template.dto';
+import { CreateTicketDto } from '../tickets/dto/create-ticket.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role } from 'src/generated/prisma/enums';
+
+const TEMPLATE_INCLUDE = {
+  labels: {
+    select: { label: { select: { id: true, name: true, color: true } } },
+  },
+  assignee: {
+    select: { id: true, username: true, firstName: true, lastName: true },
+  },
+} as const;
+
+@Injectable()
+export class TicketTemplatesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    projectId: string,
+    userId: string,
+    dto: CreateTicketTemplateDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.assertNameAvailable(projectId, dto.name);
+    if (dto.assigneeId) await this.validateMember(projectId, dto.assigneeId);
+    if (dto.labelIds?.length) {
+      await this.validateLabelsInProject(dto.labelIds, projectId);
+    }
+
+    return this.prisma.ticketTemplate.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        type: dto.type,
+        priority: dto.priority,
+        assigneeId: dto.assigneeId,
+        projectId,
+        labels: dto.labelIds && {
+          create: [...new Set(dto.labelIds)].map((labelId) => ({ labelId })),
+        },
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+  }
+
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.ticketTemplate.findMany({
+      where: { projectId },
+      include: TEMPLATE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOne(projectId: string, templateId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const template = await this.prisma.ticketTemplate.findFirst({
+      where: { id: templateId, projectId },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    if (!template) throw new NotFoundException('Ticket template not found');
+
+    return template;
+  }
+
+  async update(
+    projectId: string,
+    templateId: string,
+    userId: string,
+    dto: UpdateTicketTemplateDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const template = await this.findTemplateInProject(projectId, templateId);
+
+    if (dto.name && dto.name !== template.name) {
+      await this.assertNameAvailable(projectId, dto.name);
+    }
+    if (dto.assigneeId) await this.validateMember(projectId, dto.assigneeId);
+    if (dto.labelIds?.length) {
+      await this.validateLabelsInProject(dto.labelIds, projectId);
+    }
+
+    const { labelIds, ...fields } = dto;
+
+    return this.prisma.ticketTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...fields,
+        labels: labelIds && {
+          deleteMany: {},
+          create: [...new Set(labelIds)].map((labelId) => ({ labelId })),
+        },
+      },
+      include: TEMPLATE_INCLUDE,
+    });
+  }
+
+  async remove(projectId: string, templateId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findTemplateInProject(projectId, templateId);
+
+    await this.prisma.ticketTemplate.delete({ where: { id: templateId } });
+
+    return { message: 'Ticket template deleted successfully' };
+  }
+
+  /**
+   * The ticket to create: the submitted fields, with the template's
+   * defaults for any left out. Labels from both are kept. A default
+   * assignee who has since left the project is dropped.
+   */
+  async applyTemplate(
+    projectId: string,
+    templateId: string,
+    userId: string,
+    dto: CreateTicketDto,
+  ): Promise<CreateTicketDto> {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const template = await this.prisma.ticketTemplate.findFirst({
+      where: { id: templateId, projectId },
+      include: { labels: { select: { labelId: true } } },
+    });
+
+    if (!template) throw new NotFoundException('Ticket template not found');
+
+    const assigneeId =
+      dto.assigneeId ??
+      (template.assigneeId &&
+      (await this.isMember(projectId, template.assigneeId))
+        ? template.assigneeId
+        : undefined);
+
+    const labelIds = [
+      ...new Set([
+        ...template.labels.map(({ labelId }) => labelId),
+        ...(dto.labelIds ?? []),
+      ]),
+    ];
+
+    return {
+      ...dto,
+      description: dto.description ?? template.description ?? undefined,
+      type: dto.type ?? template.type ?? undefined,
+      priority: dto.priority ?? template.priority ?? undefined,
+      assigneeId,
+      labelIds: labelIds.length > 0 ? labelIds : undefined,
+    };
+  }
+
+  private async findTemplateInProject(projectId: string, templateId: string) {
+    const template = await this.prisma.ticketTemplate.findFirst({
+      where: { id: templateId, projectId },
+    });
+
+    if (!template) throw new NotFoundException('Ticket template not found');
+
+    return template;
+  }
+
+  private async assertNameAvailable(projectId: string, name: string) {
+    const existing = await this.prisma.ticketTemplate.findUnique({
+      where: { projectId_name: { projectId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Ticket template "${name}" already exists in this project`,
+      );
+    }
+  }
+
+  private async validateLabelsInProject(labelIds: string[], projectId: string) {
+    const unique = [...new Set(labelIds)];
+    const count = await this.prisma.label.count({
+      where: { id: { in: unique }, projectId },
+    });
+
+    if (count !== unique.length) {
+      throw new BadRequestException(
+        'One or more labels do not belong to this project',
+      );
+    }
+  }
+
+  private async validateMember(projectId: string, userId: string) {
+    if (!(await this.isMember(projectId, userId))) {
+      throw new BadRequestException(
+        'The assignee is not a member of this project',
+      );
+    }
+  }
+
+  private async isMember(projectId: string, userId: string) {
+    const member = await this.prisma.projectMember.findUnique({
+      where: { userId_projectId: { userId, projectId } },
+    });
+
+    return member !== null;
+  }
+}
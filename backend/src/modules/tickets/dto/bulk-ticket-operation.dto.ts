@@ -0,0 +1,118 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsDefined,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+import { MAX_TICKET_QUERY_LENGTH } from './list-tickets-query.dto';
+
+export const BULK_TICKET_LIMIT = 500;
+
+export const BULK_ACTIONS = ['update', 'move', 'delete', 'addLabel'] as const;
+
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+
+/** Same filters as `GET /tickets`, minus pagination and sorting. */
+export class BulkTicketFilterDto {
+  @IsUUID()
+  @IsOptional()
+  statusId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  sprintId?: string;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType;
+
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @IsIn(['any', 'all'], { message: 'labelMatch must be any or all' })
+  @IsOptional()
+  labelMatch?: 'any' | 'all';
+
+  @IsString()
+  @MaxLength(MAX_TICKET_QUERY_LENGTH)
+  @IsOptional()
+  q?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  overdue?: boolean;
+}
+
+export class BulkTicketFieldsDto {
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  /** `null` unassigns. */
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string | null;
+
+  /** `null` clears the due date. */
+  @IsDateString()
+  @IsOptional()
+  dueDate?: string | null;
+}
+
+export class BulkTicketOperationDto {
+  @IsIn(BULK_ACTIONS, {
+    message: `action must be one of: ${BULK_ACTIONS.join(', ')}`,
+  })
+  action: BulkAction;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(BULK_TICKET_LIMIT)
+  @IsUUID('all', { each: true })
+  @ValidateIf((o: BulkTicketOperationDto) => !o.filter)
+  ticketIds?: string[];
+
+  @ValidateNested()
+  @Type(() => BulkTicketFilterDto)
+  @IsOptional()
+  filter?: BulkTicketFilterDto;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => BulkTicketFieldsDto)
+  @ValidateIf((o: BulkTicketOperationDto) => o.action === 'update')
+  fields?: BulkTicketFieldsDto;
+
+  @IsUUID()
+  @ValidateIf((o: BulkTicketOperationDto) => o.action === 'move')
+  statusId?: string;
+
+  @IsUUID()
+  @ValidateIf((o: BulkTicketOperationDto) => o.action === 'addLabel')
+  labelId?: string;
+}
@@ -0,0 +1,39 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsBoolean,
+  MaxLength,
+} from 'class-validator';
+
+export class CloneTicketDto {
+  /** Defaults to the ticket's own project. */
+  @IsUUID()
+  @IsOptional()
+  targetProjectId?: string;
+
+  /** Defaults to the column with the same name, as when moving. */
+  @IsUUID()
+  @IsOptional()
+  statusId?: string;
+
+  /** Defaults to the original title. */
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(255)
+  title?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  comments?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  links?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  subtasks?: boolean;
+}
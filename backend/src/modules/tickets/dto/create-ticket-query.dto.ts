@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class CreateTicketQueryDto {
+  /** Ticket template whose defaults fill in fields the body leaves out. */
+  @IsUUID()
+  @IsOptional()
+  template?: string;
+}
@@ -6,6 +6,13 @@ import {
   IsUUID,
   IsDateString,
   MaxLength,
+  IsArray,
+  ArrayMaxSize,
+  IsObject,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
 } from 'class-validator';
 import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
 
@@ -19,13 +26,15 @@ export class CreateTicketDto {
   @IsOptional()
   description?: string;
 
+  /** Defaults to the template's type, or TASK. */
   @IsEnum(TicketType)
   @IsOptional()
-  type?: TicketType = TicketType.TASK;
+  type?: TicketType;
 
+  /** Defaults to the template's priority, or MEDIUM. */
   @IsEnum(TicketPriority)
   @IsOptional()
-  priority?: TicketPriority = TicketPriority.MEDIUM;
+  priority?: TicketPriority;
 
   @IsUUID()
   @IsNotEmpty()
@@ -38,4 +47,34 @@ export class CreateTicketDto {
   @IsDateString()
   @IsOptional()
   dueDate?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  storyPoints?: number;
+
+  /** Minutes. */
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  originalEstimate?: number;
+
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  /**
+   * Values keyed by custom field key, validated against the project's
+   * definitions by `CustomFieldsService`.
+   */
+  @IsObject()
+  @IsOptional()
+  customFields?: Record<string, unknown>;
 }
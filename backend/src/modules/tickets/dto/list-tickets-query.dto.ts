@@ -0,0 +1,88 @@
+import { Transform } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+
+// The query parser recurses on each group, so unbounded input could
+// exhaust the stack
+export const MAX_TICKET_QUERY_LENGTH = 1000;
+
+export const TICKET_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'dueDate',
+  'priority',
+  'number',
+] as const;
+
+export type TicketSortField = (typeof TICKET_SORT_FIELDS)[number];
+
+export class ListTicketsQueryDto extends PaginationQueryDto {
+  @IsUUID()
+  @IsOptional()
+  statusId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  sprintId?: string;
+
+  @IsEnum(TicketPriority)
+  @IsOptional()
+  priority?: TicketPriority;
+
+  @IsEnum(TicketType)
+  @IsOptional()
+  type?: TicketType;
+
+  /** Accepts `?labelIds=a,b` as well as repeated `?labelIds=a&labelIds=b`. */
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @IsIn(['any', 'all'], { message: 'labelMatch must be any or all' })
+  @IsOptional()
+  labelMatch?: 'any' | 'all' = 'any';
+
+  @IsString()
+  @MaxLength(MAX_TICKET_QUERY_LENGTH)
+  @IsOptional()
+  q?: string;
+
+  /**
+   * Past due and not in a done column. Query strings are text, so only
+   * the literal `true` enables the filter.
+   */
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) => obj.overdue === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  overdue?: boolean;
+
+  @IsIn(TICKET_SORT_FIELDS, {
+    message: `sort must be one of: ${TICKET_SORT_FIELDS.join(', ')}`,
+  })
+  @IsOptional()
+  sort?: TicketSortField;
+
+  @IsIn(['asc', 'desc'], { message: 'direction must be asc or desc' })
+  @IsOptional()
+  direction?: 'asc' | 'desc' = 'asc';
+}
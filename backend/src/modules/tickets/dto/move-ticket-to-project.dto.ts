@@ -0,0 +1,23 @@
+import { IsUUID, IsNotEmpty, IsOptional } from 'class-validator';
+
+export class MoveTicketToProjectDto {
+  @IsUUID()
+  @IsNotEmpty()
+  targetProjectId: string;
+
+  /**
+   * Column on the target board. Defaults to the column with the same name,
+   * or the board's default column if there is none.
+   */
+  @IsUUID()
+  @IsOptional()
+  statusId?: string;
+
+  /**
+   * Replaces the assignee; `null` unassigns. Needed when the current
+   * assignee is not a member of the target project.
+   */
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string | null;
+}
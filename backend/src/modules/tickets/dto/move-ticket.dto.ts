@@ -5,6 +5,7 @@ export class MoveTicketDto {
   @IsNotEmpty()
   statusId: string;
 
+  /** Zero-based position among the column's other tickets. */
   @IsInt()
   @Min(0)
   order: number;
@@ -5,6 +5,13 @@ import {
   IsUUID,
   IsDateString,
   MaxLength,
+  IsArray,
+  ArrayMaxSize,
+  IsObject,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
 } from 'class-validator';
 import { TicketPriority, TicketType } from 'src/generated/prisma/enums';
 
@@ -33,4 +40,37 @@ export class UpdateTicketDto {
   @IsDateString()
   @IsOptional()
   dueDate?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  storyPoints?: number | null;
+
+  /** Minutes. */
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  originalEstimate?: number | null;
+
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  addLabelIds?: string[];
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  removeLabelIds?: string[];
+
+  /** Only the keys sent are changed; `null` clears a value. */
+  @IsObject()
+  @IsOptional()
+  customFields?: Record<string, unknown>;
 }
@@ -0,0 +1,557 @@
+import { isISO8601 } from 'class-validator';
+import { Prisma } from 'src/generated/prisma/client';
+import {
+  CustomFieldType,
+  TicketPriority,
+  TicketType,
+} from 'src/generated/prisma/enums';
+import { MAX_TICKET_NUMBER } from '../ticket-key.helper';
+import { TicketQuerySyntaxError } from './ticket-query.error';
+import {
+  ComparisonOperator,
+  QueryNode,
+  QueryValue,
+} from './ticket-query.parser';
+
+export interface CustomFieldDefinition {
+  id: string;
+  key: string;
+  type: CustomFieldType;
+  options: string[];
+}
+
+export interface TicketQueryContext {
+  userId: string;
+  now: Date;
+  /** The project's custom fields, addressable as `cf.<key>`. */
+  customFields?: CustomFieldDefinition[];
+}
+
+type Clause = Extract<QueryNode, { kind: 'clause' }>;
+type Where = Prisma.TicketWhereInput;
+type ValueWhere = Prisma.CustomFieldValueWhereInput;
+
+const CUSTOM_FIELD_PREFIX = 'cf.';
+
+const PRIORITY_ORDER: TicketPriority[] = [
+  TicketPriority.LOW,
+  TicketPriority.MEDIUM,
+  TicketPriority.HIGH,
+  TicketPriority.URGENT,
+];
+
+const RELATIVE_DATE = /^([+-])(\d+)([mhdw])$/;
+const ABSOLUTE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = UNIT_MS.d;
+
+export function compileTicketQuery(
+  node: QueryNode,
+  context: TicketQueryContext,
+): Where {
+  switch (node.kind) {
+    case 'and':
+      return {
+        AND: [
+          compileTicketQuery(node.left, context),
+          compileTicketQuery(node.right, context),
+        ],
+      };
+    case 'or':
+      return {
+        OR: [
+          compileTicketQuery(node.left, context),
+          compileTicketQuery(node.right, context),
+        ],
+      };
+    case 'not':
+      return { NOT: compileTicketQuery(node.operand, context) };
+    case 'clause':
+      return compileClause(node, context);
+  }
+}
+
+function compileClause(clause: Clause, context: TicketQueryContext): Where {
+  switch (clause.field) {
+    case 'assignee':
+      return compileUser(clause, context, 'assignee', 'assigneeId', true);
+    case 'reporter':
+      return compileUser(clause, context, 'reporter', 'reporterId', false);
+    case 'priority':
+      return compilePriority(clause);
+    case 'type':
+      return compileEnum(clause, 'type', Object.values(TicketType) as string[]);
+    case 'status':
+      return compileStatus(clause);
+    case 'label':
+      return compileLabel(clause);
+    case 'text':
+      return compileText(clause, ['title', 'description']);
+    case 'title':
+      return compileText(clause, ['title']);
+    case 'description':
+      return compileText(clause, ['description']);
+    case 'number':
+      return compileNumber(clause);
+    case 'due':
+      return compileDate(clause, context, 'dueDate', true);
+    case 'created':
+      return compileDate(clause, context, 'createdAt', false);
+    case 'updated':
+      return compileDate(clause, context, 'updatedAt', false);
+    default:
+      if (clause.field.startsWith(CUSTOM_FIELD_PREFIX)) {
+        return compileCustomField(clause, context);
+      }
+      throw new TicketQuerySyntaxError(
+        `Unknown field "${clause.field}"`,
+        clause.position,
+      );
+  }
+}
+
+function compileUser(
+  clause: Clause,
+  context: TicketQueryContext,
+  relation: 'assignee' | 'reporter',
+  column: 'assigneeId' | 'reporterId',
+  nullable: boolean,
+): Where {
+  assertOperator(clause, ['=', '!=', 'in', 'not in', 'is', 'is not']);
+
+  if (clause.operator === 'is' || clause.operator === 'is not') {
+    assertEmptyValue(clause, nullable);
+    return { [column]: clause.operator === 'is' ? null : { not: null } };
+  }
+
+  const matchers: Where[] = clause.values.map((value) => {
+    if (value.kind === 'empty') {
+      assertEmptyValue(clause, nullable);
+      return { [column]: null };
+    }
+    if (value.kind === 'word' && value.value.toLowerCase() === 'me') {
+      return { [column]: context.userId };
+    }
+    return { [relation]: { is: { username: value.value } } };
+  });
+
+  return applyNegation(clause, matchers);
+}
+
+function compilePriority(clause: Clause): Where {
+  if (!['<', '<=', '>', '>='].includes(clause.operator)) {
+    return compileEnum(clause, 'priority', PRIORITY_ORDER);
+  }
+
+  const [value] = clause.values;
+  const index = PRIORITY_ORDER.indexOf(
+    parseEnumValue(value, PRIORITY_ORDER) as TicketPriority,
+  );
+
+  const matching = PRIORITY_ORDER.filter((_, i) => {
+    switch (clause.operator) {
+      case '<':
+        return i < index;
+      case '<=':
+        return i <= index;
+      case '>':
+        return i > index;
+      default:
+        return i >= index;
+    }
+  });
+
+  return { priority: { in: matching } };
+}
+
+function compileEnum(
+  clause: Clause,
+  column: 'priority' | 'type',
+  allowed: string[],
+): Where {
+  assertOperator(clause, ['=', '!=', 'in', 'not in']);
+
+  const values = clause.values.map((value) => parseEnumValue(value, allowed));
+  const negated = clause.operator === '!=' || clause.operator === 'not in';
+
+  return {
+    [column]: negated ? { notIn: values } : { in: values },
+  };
+}
+
+function compileStatus(clause: Clause): Where {
+  assertOperator(clause, ['=', '!=', 'in', 'not in']);
+
+  const matchers: Where[] = clause.values.map((value) => ({
+    status: {
+      is: { name: { equals: parseText(value), mode: 'insensitive' } },
+    },
+  }));
+
+  return applyNegation(clause, matchers);
+}
+
+function compileLabel(clause: Clause): Where {
+  assertOperator(clause, ['=', '!=', 'in', 'not in', 'is', 'is not']);
+
+  if (clause.operator === 'is' || clause.operator === 'is not') {
+    assertEmptyValue(clause, true);
+    return { labels: clause.operator === 'is' ? { none: {} } : { some: {} } };
+  }
+
+  const matchers: Where[] = clause.values.map((value) => {
+    if (value.kind === 'empty') return { labels: { none: {} } };
+    return {
+      labels: {
+        some: {
+          label: {
+            is: { name: { equals: parseText(value), mode: 'insensitive' } },
+          },
+        },
+      },
+    };
+  });
+
+  return applyNegation(clause, matchers);
+}
+
+function compileText(
+  clause: Clause,
+  columns: ('title' | 'description')[],
+): Where {
+  assertOperator(clause, ['~', '!~']);
+
+  const term = parseText(clause.values[0]);
+  const where: Where = {
+    OR: columns.map((column) => ({
+      [column]: { contains: term, mode: 'insensitive' },
+    })),
+  };
+
+  return clause.operator === '!~' ? { NOT: where } : where;
+}
+
+function compileNumber(clause: Clause): Where {
+  assertOperator(clause, ['=', '!=', '<', '<=', '>', '>=', 'in', 'not in']);
+
+  const numbers = clause.values.map((value) => {
+    const parsed = Number(value.value);
+    if (
+      value.kind !== 'word' ||
+      !Number.isInteger(parsed) ||
+      parsed < 1 ||
+      parsed > MAX_TICKET_NUMBER
+    ) {
+      throw new TicketQuerySyntaxError(
+        `Expected a ticket number but found "${value.value}"`,
+        value.position,
+      );
+    }
+    return parsed;
+  });
+
+  switch (clause.operator) {
+    case 'in':
+    case '=':
+      return { number: { in: numbers } };
+    case 'not in':
+    case '!=':
+      return { number: { notIn: numbers } };
+    default:
+      return { number: { [rangeKey(clause.operator)]: numbers[0] } };
+  }
+}
+
+function compileDate(
+  clause: Clause,
+  context: TicketQueryContext,
+  column: 'dueDate' | 'createdAt' | 'updatedAt',
+  nullable: boolean,
+): Where {
+  assertOperator(clause, ['=', '!=', '<', '<=', '>', '>=', 'is', 'is not']);
+
+  const [value] = clause.values;
+
+  if (clause.operator === 'is' || clause.operator === 'is not') {
+    assertEmptyValue(clause, nullable);
+    return { [column]: clause.operator === 'is' ? null : { not: null } };
+  }
+
+  const range = parseDate(value, context.now);
+
+  if (clause.operator === '!=') {
+    return { NOT: { [column]: dateFilter('=', range) } };
+  }
+
+  return { [column]: dateFilter(clause.operator, range) };
+}
+
+/**
+ * `cf.<key>` clauses. Each matcher is a condition on the ticket's value row
+ * for that field; tickets without a value only match `is EMPTY` and the
+ * negated operators.
+ */
+function compileCustomField(
+  clause: Clause,
+  context: TicketQueryContext,
+): Where {
+  const key = clause.field.slice(CUSTOM_FIELD_PREFIX.length);
+  const field = context.customFields?.find((f) => f.key === key);
+
+  if (!field) {
+    throw new TicketQuerySyntaxError(
+      `Unknown custom field "${key}"`,
+      clause.position,
+    );
+  }
+
+  const some = (where: ValueWhere): Where => ({
+    customFields: { some: { fieldId: field.id, ...where } },
+  });
+
+  if (clause.operator === 'is' || clause.operator === 'is not') {
+    assertEmptyValue(clause, true);
+    return clause.operator === 'is'
+      ? { customFields: { none: { fieldId: field.id } } }
+      : some({});
+  }
+
+  switch (field.type) {
+    case CustomFieldType.TEXT: {
+      assertOperator(clause, ['=', '!=', 'in', 'not in', '~', '!~']);
+      if (clause.operator === '~' || clause.operator === '!~') {
+        const where = some({
+          textValue: {
+            contains: parseText(clause.values[0]),
+            mode: 'insensitive',
+          },
+        });
+        return clause.operator === '!~' ? { NOT: where } : where;
+      }
+      return applyNegation(
+        clause,
+        clause.values.map((value) =>
+          some({
+            textValue: { equals: parseText(value), mode: 'insensitive' },
+          }),
+        ),
+      );
+    }
+    case CustomFieldType.SINGLE_SELECT:
+    case CustomFieldType.MULTI_SELECT: {
+      assertOperator(clause, ['=', '!=', 'in', 'not in']);
+      return applyNegation(
+        clause,
+        clause.values.map((value) => {
+          const option = parseOption(value, field.options);
+          return some(
+            field.type === CustomFieldType.SINGLE_SELECT
+              ? { textValue: option }
+              : { optionValues: { has: option } },
+          );
+        }),
+      );
+    }
+    case CustomFieldType.NUMBER: {
+      assertOperator(clause, ['=', '!=', '<', '<=', '>', '>=', 'in', 'not in']);
+      const numbers = clause.values.map(parseNumber);
+      if (['<', '<=', '>', '>='].includes(clause.operator)) {
+        return some({
+          numberValue: { [rangeKey(clause.operator)]: numbers[0] },
+        });
+      }
+      return applyNegation(clause, [some({ numberValue: { in: numbers } })]);
+    }
+    case CustomFieldType.DATE: {
+      assertOperator(clause, ['=', '!=', '<', '<=', '>', '>=']);
+      const range = parseDate(clause.values[0], context.now);
+      if (clause.operator === '!=') {
+        return { NOT: some({ dateValue: dateFilter('=', range) }) };
+      }
+      return some({ dateValue: dateFilter(clause.operator, range) });
+    }
+    case CustomFieldType.USER: {
+      assertOperator(clause, ['=', '!=', 'in', 'not in']);
+      return applyNegation(
+        clause,
+        clause.values.map((value) => {
+          if (value.kind === 'word' && value.value.toLowerCase() === 'me') {
+            return some({ userId: context.userId });
+          }
+          return some({ user: { is: { username: parseText(value) } } });
+        }),
+      );
+    }
+  }
+}
+
+function dateFilter(
+  operator: ComparisonOperator,
+  { start, end }: { start: Date; end: Date },
+): Prisma.DateTimeFilter {
+  switch (operator) {
+    case '=':
+      return { gte: start, lt: end };
+    case '<':
+      return { lt: start };
+    case '<=':
+      return { lt: end };
+    case '>':
+      return { gte: end };
+    default:
+      return { gte: start };
+  }
+}
+
+/**
+ * Resolves a date literal to the half-open range it covers. Calendar dates
+ * cover the whole UTC day; relative offsets and `now` are instants.
+ */
+function parseDate(value: QueryValue, now: Date): { start: Date; end: Date } {
+  const raw = value.value.toLowerCase();
+
+  if (value.kind === 'word' && raw === 'now') {
+    return { start: now, end: now };
+  }
+
+  if (value.kind === 'word' && raw === 'today') {
+    const start = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  const relative = RELATIVE_DATE.exec(value.value);
+  if (value.kind === 'word' && relative) {
+    const [, sign, amount, unit] = relative;
+    const offset = Number(amount) * UNIT_MS[unit] * (sign === '-' ? -1 : 1);
+    const instant = new Date(now.getTime() + offset);
+    // Offsets too large for a date, or for Postgres, fall through to the error
+    if (isStorableDate(instant)) return { start: instant, end: instant };
+  }
+
+  // Strict, so impossible days like 2026-02-31 don't roll over
+  if (
+    ABSOLUTE_DATE.test(value.value) &&
+    isISO8601(value.value, { strict: true, strictSeparator: true })
+  ) {
+    const start = new Date(`${value.value}T00:00:00.000Z`);
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  throw new TicketQuerySyntaxError(
+    `Expected a date (YYYY-MM-DD, now, today, or an offset like +7d) but found "${value.value}"`,
+    value.position,
+  );
+}
+
+function isStorableDate(date: Date) {
+  const year = date.getUTCFullYear();
+  return year >= 1 && year <= 9999;
+}
+
+function parseEnumValue(value: QueryValue, allowed: string[]): string {
+  const normalized = value.value.toUpperCase();
+
+  if (value.kind === 'empty' || !allowed.includes(normalized)) {
+    throw new TicketQuerySyntaxError(
+      `Expected one of ${allowed.join(', ')} but found "${value.value}"`,
+      value.position,
+    );
+  }
+
+  return normalized;
+}
+
+function parseOption(value: QueryValue, options: string[]): string {
+  const text = parseText(value);
+  const option = options.find((o) => o.toLowerCase() === text.toLowerCase());
+
+  if (!option) {
+    throw new TicketQuerySyntaxError(
+      `Expected one of ${options.join(', ')} but found "${value.value}"`,
+      value.position,
+    );
+  }
+
+  return option;
+}
+
+function parseNumber(value: QueryValue): number {
+  const parsed = Number(value.value);
+
+  if (value.kind !== 'word' || !Number.isFinite(parsed)) {
+    throw new TicketQuerySyntaxError(
+      `Expected a number but found "${value.value}"`,
+      value.position,
+    );
+  }
+
+  return parsed;
+}
+
+function parseText(value: QueryValue): string {
+  if (value.kind === 'empty') {
+    throw new TicketQuerySyntaxError(
+      'EMPTY is not allowed here',
+      value.position,
+    );
+  }
+  return value.value;
+}
+
+function applyNegation(clause: Clause, matchers: Where[]): Where {
+  const where = matchers.length === 1 ? matchers[0] : { OR: matchers };
+  const negated = clause.operator === '!=' || clause.operator === 'not in';
+  return negated ? { NOT: where } : where;
+}
+
+function assertOperator(clause: Clause, allowed: ComparisonOperator[]) {
+  if (!allowed.includes(clause.operator)) {
+    throw new TicketQuerySyntaxError(
+      `Operator "${clause.operator}" is not supported for field "${clause.field}"`,
+      clause.position,
+    );
+  }
+}
+
+function assertEmptyValue(clause: Clause, nullable: boolean) {
+  const [value] = clause.values;
+
+  if (!nullable) {
+    throw new TicketQuerySyntaxError(
+      `Field "${clause.field}" can never be empty`,
+      clause.position,
+    );
+  }
+
+  if (
+    (clause.operator === 'is' || clause.operator === 'is not') &&
+    value.kind !== 'empty'
+  ) {
+    throw new TicketQuerySyntaxError(
+      `Expected EMPTY after "${clause.operator}"`,
+      value.position,
+    );
+  }
+}
+
+function rangeKey(operator: ComparisonOperator): 'lt' | 'lte' | 'gt' | 'gte' {
+  switch (operator) {
+    case '<':
+      return 'lt';
+    case '<=':
+      return 'lte';
+    case '>':
+      return 'gt';
+    default:
+      return 'gte';
+  }
+}
@@ -0,0 +1,14 @@
+import { BadRequestException } from '@nestjs/common';
+
+export class TicketQuerySyntaxError extends BadRequestException {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super({
+      message: `${message} at position ${position}`,
+      error: 'Invalid Query',
+      details: { position },
+    });
+  }
+}
@@ -0,0 +1,305 @@
+import { TicketQuerySyntaxError } from './ticket-query.error';
+
+/**
+ * Parser for the ticket search language used by `GET .../tickets?q=`.
+ *
+ *   assignee = me AND priority in (HIGH, URGENT) AND due < +7d
+ *   NOT (status = "Done" OR text ~ "login")
+ *
+ * Produces an AST only — field names and values are validated by the
+ * compiler, which knows the schema.
+ */
+
+export type ComparisonOperator =
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '~'
+  | '!~'
+  | 'in'
+  | 'not in'
+  | 'is'
+  | 'is not';
+
+export interface QueryValue {
+  kind: 'word' | 'string' | 'empty';
+  value: string;
+  position: number;
+}
+
+export type QueryNode =
+  | { kind: 'and'; left: QueryNode; right: QueryNode }
+  | { kind: 'or'; left: QueryNode; right: QueryNode }
+  | { kind: 'not'; operand: QueryNode }
+  | {
+      kind: 'clause';
+      field: string;
+      operator: ComparisonOperator;
+      values: QueryValue[];
+      position: number;
+    };
+
+type TokenType =
+  | 'word'
+  | 'string'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['!=', '<=', '>=', '!~', '=', '<', '>', '~'];
+const WORD_PATTERN = /[A-Za-z0-9_+\-:.@]/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      const type = char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma';
+      tokens.push({ type, value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i];
+        i++;
+      }
+
+      if (i >= input.length) {
+        throw new TicketQuerySyntaxError('Unterminated string', start);
+      }
+
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (WORD_PATTERN.test(char)) {
+      const start = i;
+      while (i < input.length && WORD_PATTERN.test(input[i])) i++;
+      tokens.push({
+        type: 'word',
+        value: input.slice(start, i),
+        position: start,
+      });
+      continue;
+    }
+
+    throw new TicketQuerySyntaxError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+
+    if (token.type !== 'eof') {
+      throw new TicketQuerySyntaxError(
+        `Unexpected "${token.value}"`,
+        token.position,
+      );
+    }
+
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd();
+
+    while (this.matchKeyword('or')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot();
+
+    while (this.matchKeyword('and')) {
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+
+    return left;
+  }
+
+  private parseNot(): QueryNode {
+    if (this.matchKeyword('not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      this.expect('rparen', 'Expected ")"');
+      return node;
+    }
+
+    if (token.type !== 'word') {
+      throw new TicketQuerySyntaxError(
+        token.type === 'eof'
+          ? 'Unexpected end of query, expected a field name'
+          : `Expected a field name but found "${token.value}"`,
+        token.position,
+      );
+    }
+
+    this.index++;
+    const operator = this.parseOperator();
+    const values = this.parseValues(operator);
+
+    return {
+      kind: 'clause',
+      field: token.value.toLowerCase(),
+      operator,
+      values,
+      position: token.position,
+    };
+  }
+
+  private parseOperator(): ComparisonOperator {
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.index++;
+      return token.value as ComparisonOperator;
+    }
+
+    if (this.matchKeyword('in')) return 'in';
+
+    if (this.matchKeyword('is')) {
+      return this.matchKeyword('not') ? 'is not' : 'is';
+    }
+
+    if (this.isKeyword(token, 'not') && this.isKeyword(this.peek(1), 'in')) {
+      this.index += 2;
+      return 'not in';
+    }
+
+    throw new TicketQuerySyntaxError(
+      token.type === 'eof'
+        ? 'Unexpected end of query, expected an operator'
+        : `Expected an operator but found "${token.value}"`,
+      token.position,
+    );
+  }
+
+  private parseValues(operator: ComparisonOperator): QueryValue[] {
+    if (operator !== 'in' && operator !== 'not in') {
+      return [this.parseValue()];
+    }
+
+    this.expect('lparen', `Expected "(" after "${operator}"`);
+    const values = [this.parseValue()];
+
+    while (this.peek().type === 'comma') {
+      this.index++;
+      values.push(this.parseValue());
+    }
+
+    this.expect('rparen', 'Expected "," or ")"');
+    return values;
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.peek();
+
+    if (token.type === 'string') {
+      this.index++;
+      return { kind: 'string', value: token.value, position: token.position };
+    }
+
+    if (token.type === 'word') {
+      this.index++;
+      return {
+        kind: this.isKeyword(token, 'empty') ? 'empty' : 'word',
+        value: token.value,
+        position: token.position,
+      };
+    }
+
+    throw new TicketQuerySyntaxError(
+      token.type === 'eof'
+        ? 'Unexpected end of query, expected a value'
+        : `Expected a value but found "${token.value}"`,
+      token.position,
+    );
+  }
+
+  private expect(type: TokenType, message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new TicketQuerySyntaxError(message, token.position);
+    }
+    this.index++;
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.isKeyword(this.peek(), keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+}
+
+export function parseTicketQuery(input: string): QueryNode {
+  if (!input.trim()) {
+    throw new TicketQuerySyntaxError('Query is empty', 0);
+  }
+
+  return new Parser(tokenize(input)).parse();
+}
@@ -0,0 +1,180 @@
+import { parseTicketQuery } from './ticket-query.parser';
+import { compileTicketQuery } from './ticket-query.compiler';
+import { TicketQuerySyntaxError } from './ticket-query.error';
+
+describe('ticket query language', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z');
+  const context = { userId: 'user-1', now };
+
+  const compile = (q: string) =>
+    compileTicketQuery(parseTicketQuery(q), context);
+
+  const positionOf = (q: string) => {
+    try {
+      compile(q);
+    } catch (err) {
+      expect(err).toBeInstanceOf(TicketQuerySyntaxError);
+      return (err as TicketQuerySyntaxError).position;
+    }
+    throw new Error(`Expected "${q}" to fail`);
+  };
+
+  describe('parser', () => {
+    it('gives AND higher precedence than OR', () => {
+      expect(
+        parseTicketQuery('type = BUG OR type = TASK AND priority = LOW'),
+      ).toMatchObject({
+        kind: 'or',
+        right: { kind: 'and' },
+      });
+    });
+
+    it('parses negation, grouping and value lists', () => {
+      expect(
+        parseTicketQuery('NOT (priority in (HIGH, URGENT) OR text ~ "a b")'),
+      ).toMatchObject({
+        kind: 'not',
+        operand: {
+          kind: 'or',
+          left: {
+            kind: 'clause',
+            field: 'priority',
+            operator: 'in',
+            values: [{ value: 'HIGH' }, { value: 'URGENT' }],
+          },
+          right: { operator: '~', values: [{ kind: 'string', value: 'a b' }] },
+        },
+      });
+    });
+
+    it('parses "not in" and "is not" operators', () => {
+      expect(parseTicketQuery('assignee not in (me)')).toMatchObject({
+        operator: 'not in',
+      });
+      expect(parseTicketQuery('due is not EMPTY')).toMatchObject({
+        operator: 'is not',
+        values: [{ kind: 'empty' }],
+      });
+    });
+
+    it('reports the position of syntax errors', () => {
+      expect(positionOf('priority = HIGH AND')).toBe(19);
+      expect(positionOf('priority HIGH')).toBe(9);
+      expect(positionOf('text ~ "unterminated')).toBe(7);
+      expect(positionOf('(type = BUG')).toBe(11);
+      expect(positionOf('type = BUG )')).toBe(11);
+      expect(positionOf('type = BUG & x')).toBe(11);
+    });
+  });
+
+  describe('compiler', () => {
+    it('resolves "me" to the current user', () => {
+      expect(compile('assignee = me')).toEqual({ assigneeId: 'user-1' });
+    });
+
+    it('matches other users by username', () => {
+      expect(compile('reporter in (me, jane)')).toEqual({
+        OR: [
+          { reporterId: 'user-1' },
+          { reporter: { is: { username: 'jane' } } },
+        ],
+      });
+    });
+
+    it('expands priority comparisons into the ordered enum values', () => {
+      expect(compile('priority >= high')).toEqual({
+        priority: { in: ['HIGH', 'URGENT'] },
+      });
+    });
+
+    it('resolves relative dates against now', () => {
+      expect(compile('due < +7d')).toEqual({
+        dueDate: { lt: new Date('2026-03-08T12:00:00.000Z') },
+      });
+    });
+
+    it('treats calendar dates as whole UTC days', () => {
+      expect(compile('created = 2026-02-01')).toEqual({
+        createdAt: {
+          gte: new Date('2026-02-01T00:00:00.000Z'),
+          lt: new Date('2026-02-02T00:00:00.000Z'),
+        },
+      });
+    });
+
+    it('searches title and description for text', () => {
+      expect(compile('text !~ login')).toEqual({
+        NOT: {
+          OR: [
+            { title: { contains: 'login', mode: 'insensitive' } },
+            { description: { contains: 'login', mode: 'insensitive' } },
+          ],
+        },
+      });
+    });
+
+    it('matches labels by name and supports EMPTY', () => {
+      expect(compile('label != infra')).toEqual({
+        NOT: {
+          labels: {
+            some: {
+              label: {
+                is: { name: { equals: 'infra', mode: 'insensitive' } },
+              },
+            },
+          },
+        },
+      });
+      expect(compile('label is EMPTY')).toEqual({ labels: { none: {} } });
+    });
+
+    it('compiles custom field clauses against the field definitions', () => {
+      const customFields = [
+        {
+          id: 'f-1',
+          key: 'env',
+          type: 'SINGLE_SELECT' as const,
+          options: ['Prod', 'Staging'],
+        },
+        { id: 'f-2', key: 'score', type: 'NUMBER' as const, options: [] },
+      ];
+      const compileWith = (q: string) =>
+        compileTicketQuery(parseTicketQuery(q), { ...context, customFields });
+
+      expect(compileWith('cf.env = prod')).toEqual({
+        customFields: { some: { fieldId: 'f-1', textValue: 'Prod' } },
+      });
+      expect(compileWith('cf.score >= 5')).toEqual({
+        customFields: { some: { fieldId: 'f-2', numberValue: { gte: 5 } } },
+      });
+      expect(compileWith('cf.score is EMPTY')).toEqual({
+        customFields: { none: { fieldId: 'f-2' } },
+      });
+      expect(() => compileWith('cf.env = Dev')).toThrow(TicketQuerySyntaxError);
+      expect(positionOf('type = BUG AND cf.env = Prod')).toBe(15);
+    });
+
+    it('supports EMPTY on nullable fields', () => {
+      expect(compile('assignee is EMPTY')).toEqual({ assigneeId: null });
+      expect(positionOf('reporter is EMPTY')).toBe(0);
+    });
+
+    it('rejects unknown fields and invalid values with their position', () => {
+      expect(positionOf('type = BUG AND colour = red')).toBe(15);
+      expect(positionOf('priority = SOON')).toBe(11);
+      expect(positionOf('due < tomorrow')).toBe(6);
+      expect(positionOf('text = login')).toBe(0);
+    });
+
+    it('rejects numbers and dates the database cannot hold', () => {
+      expect(positionOf('number = 3000000000')).toBe(9);
+      expect(positionOf('number > 0')).toBe(9);
+      expect(positionOf('due < +99999999999w')).toBe(6);
+      expect(positionOf('due < -999999w')).toBe(6);
+      expect(positionOf('due = 2026-02-31')).toBe(6);
+      expect(() =>
+        compile('due < +520w AND number <= 2147483647'),
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,29 @@
+/** `PROJ-42` — a project key (see `CreateProjectDto.key`) plus ticket number. */
+const TICKET_KEY_PATTERN = /^([A-Z]{2,6})-([1-9]\d*)$/;
+
+// Ticket numbers are Postgres `integer`s
+export const MAX_TICKET_NUMBER = 2_147_483_647;
+
+export function formatTicketKey(projectKey: string, number: number): string {
+  return `${projectKey}-${number}`;
+}
+
+/** Case-insensitive; returns `null` for anything that isn't a ticket key. */
+export function parseTicketKey(
+  key: string,
+): { projectKey: string; number: number } | null {
+  const match = TICKET_KEY_PATTERN.exec(key.trim().toUpperCase());
+  if (!match) return null;
+
+  const number = Number(match[2]);
+  if (number > MAX_TICKET_NUMBER) return null;
+
+  return { projectKey: match[1], number };
+}
+
+export function withTicketKey<T extends { number: number }>(
+  projectKey: string,
+  ticket: T,
+): T & { key: string } {
+  return { ...ticket, key: formatTicketKey(projectKey, ticket.number) };
+}
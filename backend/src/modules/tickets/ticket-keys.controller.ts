@@ -0,0 +1,23 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { TicketsService } from './tickets.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
+
+@Controller({ path: 'tickets', version: '1' })
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(ETagInterceptor)
+export class TicketKeysController {
+  constructor(private readonly ticketsService: TicketsService) {}
+
+  @Get('by-key/:key')
+  findByKey(@CurrentUser() user: { id: string }, @Param('key') key: string) {
+    return this.ticketsService.findByKey(key, user.id);
+  }
+}
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression, Interval } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import {
+  REBALANCE_RANK_LENGTH,
+  evenRanks,
+  rankBetween,
+} from '../../common/helpers/rank.helper';
+
+const REBALANCE_INTERVAL_MS = 30_000;
+const REBALANCE_TRANSACTION_TIMEOUT_MS = 30_000;
+
+/**
+ * Positions of tickets within a board column. Placing a ticket writes only
+ * that ticket's rank; columns whose ranks have grown long are rebalanced
+ * in the background.
+ */
+@Injectable()
+export class TicketRanksService {
+  private readonly logger = new Logger(TicketRanksService.name);
+  private readonly pendingRebalances = new Set<string>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Serializes rank writes in a column for the rest of the transaction, so
+   * two people dropping cards into the same gap can't get the same rank.
+   * Only the column's status row is locked; nothing is written.
+   */
+  async lockColumn(tx: Prisma.TransactionClient, statusId: string) {
+    await tx.$queryRaw`SELECT "id" FROM "statuses" WHERE "id" = ${statusId} FOR UPDATE`;
+  }
+
+  /**
+   * A rank that puts a ticket at zero-based `position` among the column's
+   * live tickets, leaving `ticketId` itself out when it is being moved.
+   * Call after `lockColumn`.
+   */
+  async rankAt(
+    tx: Prisma.TransactionClient,
+    statusId: string,
+    position: number,
+    ticketId?: string,
+  ): Promise<string> {
+    const neighbours = await tx.ticket.findMany({
+      where: {
+        statusId,
+        deletedAt: null,
+        ...(ticketId && { id: { not: ticketId } }),
+      },
+      orderBy: [{ rank: 'asc' }, { id: 'asc' }],
+      skip: Math.max(position - 1, 0),
+      take: position === 0 ? 1 : 2,
+      select: { rank: true },
+    });
+
+    const [before, after] =
+      position === 0
+        ? [null, neighbours[0]?.rank ?? null]
+        : [neighbours[0]?.rank ?? null, neighbours[1]?.rank ?? null];
+
+    // A restored ticket can share a rank with one placed while it was in
+    // the trash; spread the column out and look again
+    if (before !== null && after !== null && before >= after) {
+      await this.rebalanceColumn(tx, statusId);
+      return this.rankAt(tx, statusId, position, ticketId);
+    }
+
+    return this.checked(statusId, rankBetween(before, after));
+  }
+
+  /** A rank after every ticket in the column. Call after `lockColumn`. */
+  async rankAtEnd(
+    tx: Prisma.TransactionClient,
+    statusId: string,
+  ): Promise<string> {
+    const last = await tx.ticket.findFirst({
+      where: { statusId },
+      orderBy: [{ rank: 'desc' }, { id: 'desc' }],
+      select: { rank: true },
+    });
+
+    return this.checked(statusId, rankBetween(last?.rank ?? null, null));
+  }
+
+  @Interval(REBALANCE_INTERVAL_MS)
+  async processPendingRebalances() {
+    const statusIds = [...this.pendingRebalances];
+    this.pendingRebalances.clear();
+
+    for (const statusId of statusIds) {
+      await this.rebalanceInBackground(statusId);
+    }
+  }
+
+  /**
+   * Safety net for columns queued on an instance that went away before
+   * its next interval.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async rebalanceLongRanks() {
+    const columns = await this.prisma.$queryRaw<{ status_id: string }[]>`
+      SELECT DISTINCT "status_id" FROM "tickets"
+      WHERE length("rank") > ${REBALANCE_RANK_LENGTH}
+    `;
+
+    for (const { status_id } of columns) {
+      await this.rebalanceInBackground(status_id);
+    }
+  }
+
+  /**
+   * Rewrites every rank in the column, trashed tickets included, to evenly
+   * spaced values in the same order. Versions are left alone since no
+   * ticket changes position.
+   */
+  private async rebalanceColumn(
+    tx: Prisma.TransactionClient,
+    statusId: string,
+  ) {
+    const tickets = await tx.ticket.findMany({
+      where: { statusId },
+      orderBy: [{ rank: 'asc' }, { id: 'asc' }],
+      select: { id: true, rank: true },
+    });
+
+    const ranks = evenRanks(tickets.length);
+
+    for (const [i, ticket] of tickets.entries()) {
+      if (ticket.rank !== ranks[i]) {
+        await tx.ticket.update({
+          where: { id: ticket.id },
+          data: { rank: ranks[i] },
+        });
+      }
+    }
+  }
+
+  private async rebalanceInBackground(statusId: string) {
+    try {
+      await this.prisma.$transaction(
+        async (tx) => {
+          await this.lockColumn(tx, statusId);
+          await this.rebalanceColumn(tx, statusId);
+        },
+        { timeout: REBALANCE_TRANSACTION_TIMEOUT_MS },
+      );
+    } catch (err) {
+      this.logger.error(
+        `Failed to rebalance ticket ranks in column ${statusId}: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private checked(statusId: string, rank: string) {
+    if (rank.length > REBALANCE_RANK_LENGTH) {
+      this.pendingRebalances.add(statusId);
+    }
+
+    return rank;
+  }
+}
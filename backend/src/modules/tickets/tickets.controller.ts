@@ -8,45 +8,70 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { TicketsService } from './tickets.service';
 import { CreateTicketDto } from './dto/create-ticket.dto';
+import { CreateTicketQueryDto } from './dto/create-ticket-query.dto';
 import { UpdateTicketDto } from './dto/update-ticket.dto';
 import { MoveTicketDto } from './dto/move-ticket.dto';
+import { MoveTicketToProjectDto } from './dto/move-ticket-to-project.dto';
+import { CloneTicketDto } from './dto/clone-ticket.dto';
+import { ListTicketsQueryDto } from './dto/list-tickets-query.dto';
+import { BulkTicketOperationDto } from './dto/bulk-ticket-operation.dto';
+import { TicketTemplatesService } from '../ticket-templates/ticket-templates.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
 
 @Controller({ path: 'projects', version: '1' })
 @UseGuards(JwtAuthGuard)
+@UseInterceptors(ETagInterceptor)
 export class TicketsController {
-  constructor(private readonly ticketsService: TicketsService) {}
+  constructor(
+    private readonly ticketsService: TicketsService,
+    private readonly ticketTemplatesService: TicketTemplatesService,
+  ) {}
 
   @Post(':projectId/tickets')
-  create(
+  async create(
     @CurrentUser() user: { id: string },
     @Param('projectId') projectId: string,
     @Body() dto: CreateTicketDto,
+    @Query() query: CreateTicketQueryDto,
   ) {
-    return this.ticketsService.create(projectId, user.id, dto);
+    const ticket = query.template
+      ? await this.ticketTemplatesService.applyTemplate(
+          projectId,
+          query.template,
+          user.id,
+          dto,
+        )
+      : dto;
+
+    return this.ticketsService.create(projectId, user.id, ticket);
   }
 
   @Get(':projectId/tickets')
   findAll(
     @CurrentUser() user: { id: string },
     @Param('projectId') projectId: string,
-    @Query('statusId') statusId?: string,
-    @Query('assigneeId') assigneeId?: string,
-    @Query('priority') priority?: string,
-    @Query('type') type?: string,
+    @Query() query: ListTicketsQueryDto,
+  ) {
+    return this.ticketsService.findAll(projectId, user.id, query);
+  }
+
+  @Post(':projectId/tickets/bulk')
+  @HttpCode(HttpStatus.OK)
+  bulk(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: BulkTicketOperationDto,
   ) {
-    return this.ticketsService.findAll(projectId, user.id, {
-      statusId,
-      assigneeId,
-      priority,
-      type,
-    });
+    return this.ticketsService.bulk(projectId, user.id, dto);
   }
 
   @Get(':projectId/tickets/:ticketId')
@@ -58,14 +83,39 @@ export class TicketsController {
     return this.ticketsService.findOne(projectId, ticketId, user.id);
   }
 
+  @Get(':projectId/tickets/:ticketId/children')
+  findChildren(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.ticketsService.findChildren(projectId, ticketId, user.id);
+  }
+
+  @Get(':projectId/tickets/:ticketId/progress')
+  getProgress(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.ticketsService.getProgress(projectId, ticketId, user.id);
+  }
+
   @Patch(':projectId/tickets/:ticketId')
   update(
     @CurrentUser() user: { id: string },
     @Param('projectId') projectId: string,
     @Param('ticketId') ticketId: string,
     @Body() dto: UpdateTicketDto,
+    @IfMatch() expectedVersion?: number,
   ) {
-    return this.ticketsService.update(projectId, ticketId, user.id, dto);
+    return this.ticketsService.update(
+      projectId,
+      ticketId,
+      user.id,
+      dto,
+      expectedVersion,
+    );
   }
 
   @Patch(':projectId/tickets/:ticketId/move')
@@ -74,8 +124,43 @@ export class TicketsController {
     @Param('projectId') projectId: string,
     @Param('ticketId') ticketId: string,
     @Body() dto: MoveTicketDto,
+    @IfMatch() expectedVersion?: number,
+  ) {
+    return this.ticketsService.move(
+      projectId,
+      ticketId,
+      user.id,
+      dto,
+      expectedVersion,
+    );
+  }
+
+  @Post(':projectId/tickets/:ticketId/move-to-project')
+  @HttpCode(HttpStatus.OK)
+  moveToProject(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Body() dto: MoveTicketToProjectDto,
+    @IfMatch() expectedVersion?: number,
+  ) {
+    return this.ticketsService.moveToProject(
+      projectId,
+      ticketId,
+      user.id,
+      dto,
+      expectedVersion,
+    );
+  }
+
+  @Post(':projectId/tickets/:ticketId/clone')
+  clone(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Body() dto: CloneTicketDto,
   ) {
-    return this.ticketsService.move(projectId, ticketId, user.id, dto);
+    return this.ticketsService.clone(projectId, ticketId, user.id, dto);
   }
 
   @Delete(':projectId/tickets/:ticketId')
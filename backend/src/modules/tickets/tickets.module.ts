@@ -1,9 +1,35 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TicketsService } from './tickets.service';
 import { TicketsController } from './tickets.controller';
+import { TicketKeysController } from './ticket-keys.controller';
+import { TicketRanksService } from './ticket-ranks.service';
+import { WipLimitsService } from './wip-limits.service';
+import { ActivityModule } from '../activity/activity.module';
+import { WatchersModule } from '../watchers/watchers.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MentionsModule } from '../mentions/mentions.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { WorkLogsModule } from '../work-logs/work-logs.module';
+import { TransitionsModule } from '../transitions/transitions.module';
+import { AutomationModule } from '../automation/automation.module';
+import { TicketTemplatesModule } from '../ticket-templates/ticket-templates.module';
+import { SlaModule } from '../sla/sla.module';
 
 @Module({
-  controllers: [TicketsController],
-  providers: [TicketsService],
+  imports: [
+    ActivityModule,
+    WatchersModule,
+    NotificationsModule,
+    MentionsModule,
+    CustomFieldsModule,
+    WorkLogsModule,
+    TransitionsModule,
+    TicketTemplatesModule,
+    SlaModule,
+    forwardRef(() => AutomationModule),
+  ],
+  controllers: [TicketsController, TicketKeysController],
+  providers: [TicketsService, TicketRanksService, WipLimitsService],
+  exports: [TicketsService, TicketRanksService, WipLimitsService],
 })
 export class TicketsModule {}
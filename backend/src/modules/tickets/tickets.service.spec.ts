@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TicketsService } from './tickets.service';
+import { TicketRanksService } from './ticket-ranks.service';
+import { WipLimitsService } from './wip-limits.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ActivityService } from '../activity/activity.service';
+import { WatchersService } from '../watchers/watchers.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MentionsService } from '../mentions/mentions.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { TransitionsService } from '../transitions/transitions.service';
+import { AutomationService } from '../automation/automation.service';
+import { SlaService } from '../sla/sla.service';
+
+describe('TicketsService', () => {
+  let service: TicketsService;
+
+  const tx = {
+    project: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'project-1' }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ key: 'LUME' }),
+    },
+    projectMember: {
+      findUnique: jest.fn().mockResolvedValue({ role: 'MEMBER' }),
+    },
+    board: { findUnique: jest.fn().mockResolvedValue({ id: 'board-1' }) },
+    status: { findFirst: jest.fn().mockResolvedValue({ id: 'status-1' }) },
+    ticketKeyRedirect: { findFirst: jest.fn().mockResolvedValue(null) },
+    ticket: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) => ({
+        id: 'ticket-1',
+        ...data,
+        customFields: [],
+      })),
+    },
+  };
+  const prisma = {
+    ...tx,
+    $transaction: jest.fn((run: (client: typeof tx) => unknown) => run(tx)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TicketsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ActivityService, useValue: { record: jest.fn() } },
+        { provide: WatchersService, useValue: { watch: jest.fn() } },
+        { provide: NotificationsService, useValue: { notify: jest.fn() } },
+        {
+          provide: MentionsService,
+          useValue: { sync: jest.fn().mockResolvedValue({}) },
+        },
+        {
+          provide: CustomFieldsService,
+          useValue: { resolveValues: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: WorkLogsService, useValue: {} },
+        {
+          provide: TicketRanksService,
+          useValue: {
+            lockColumn: jest.fn(),
+            rankAtEnd: jest.fn().mockResolvedValue('i'),
+          },
+        },
+        {
+          provide: WipLimitsService,
+          useValue: { enforce: jest.fn().mockResolvedValue(null) },
+        },
+        { provide: TransitionsService, useValue: {} },
+        { provide: AutomationService, useValue: { dispatch: jest.fn() } },
+        { provide: SlaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(TicketsService);
+  });
+
+  describe('create', () => {
+    it('stores story points and the original estimate', async () => {
+      const ticket = await service.create('project-1', 'user-1', {
+        title: 'Estimate me',
+        statusId: 'status-1',
+        storyPoints: 5,
+        originalEstimate: 240,
+      });
+
+      expect(prisma.ticket.create.mock.calls[0][0].data).toMatchObject({
+        storyPoints: 5,
+        originalEstimate: 240,
+      });
+      expect(ticket).toMatchObject({
+        key: 'LUME-1',
+        storyPoints: 5,
+        originalEstimate: 240,
+      });
+    });
+  });
+});
@@ -8,39 +8,166 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { CreateTicketDto } from './dto/create-ticket.dto';
 import { UpdateTicketDto } from './dto/update-ticket.dto';
 import { MoveTicketDto } from './dto/move-ticket.dto';
+import { MoveTicketToProjectDto } from './dto/move-ticket-to-project.dto';
+import { CloneTicketDto } from './dto/clone-ticket.dto';
 import {
   getProjectMember,
   assertRole,
 } from '../../common/helpers/project-access.helper';
-import { Role } from 'src/generated/prisma/enums';
+import { versionConflict } from '../../common/helpers/concurrency.helper';
+import {
+  CustomFieldType,
+  NotificationType,
+  Role,
+  TicketEventType,
+  TicketType,
+} from 'src/generated/prisma/enums';
+import {
+  ActivityService,
+  TicketEventInput,
+} from '../activity/activity.service';
+import { WatchersService } from '../watchers/watchers.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MentionsService } from '../mentions/mentions.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import {
+  CUSTOM_FIELD_VALUES_INCLUDE,
+  withCustomFieldValues,
+} from '../custom-fields/custom-field-values.helper';
+import {
+  WorkLogsService,
+  remainingEstimate,
+} from '../work-logs/work-logs.service';
+import { parseTicketQuery } from './query/ticket-query.parser';
+import { compileTicketQuery } from './query/ticket-query.compiler';
+import { ListTicketsQueryDto } from './dto/list-tickets-query.dto';
+import {
+  BULK_TICKET_LIMIT,
+  BulkTicketOperationDto,
+} from './dto/bulk-ticket-operation.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+import {
+  formatTicketKey,
+  parseTicketKey,
+  withTicketKey,
+} from './ticket-key.helper';
+import { TicketRanksService } from './ticket-ranks.service';
+import { WipLimitsService, WipLimitWarning } from './wip-limits.service';
+import { TransitionsService } from '../transitions/transitions.service';
+import { AutomationService } from '../automation/automation.service';
+import { SlaService } from '../sla/sla.service';
+import { CustomField, Prisma, Status } from 'src/generated/prisma/client';
+
+const TICKET_PAGE_SIZE = 50;
+
+// Bulk batches run many statements in one interactive transaction
+const BULK_TRANSACTION_TIMEOUT_MS = 60_000;
+
+type TicketFilter = Omit<
+  ListTicketsQueryDto,
+  'limit' | 'cursor' | 'sort' | 'direction'
+>;
+
+export interface BulkTicketResult {
+  ticketId: string;
+  number?: number;
+  result:
+    | 'updated'
+    | 'moved'
+    | 'deleted'
+    | 'unchanged'
+    | 'forbidden'
+    | 'blocked'
+    | 'not_found';
+  message?: string;
+}
+
+const ALLOWED_PARENT_TYPES: Record<TicketType, TicketType[]> = {
+  [TicketType.EPIC]: [],
+  [TicketType.STORY]: [TicketType.EPIC],
+  [TicketType.TASK]: [TicketType.EPIC],
+  [TicketType.BUG]: [TicketType.EPIC],
+  [TicketType.SUBTASK]: [TicketType.STORY, TicketType.TASK, TicketType.BUG],
+};
+
+const CHILD_TYPES = Object.keys(ALLOWED_PARENT_TYPES) as TicketType[];
+
+// What's needed to map a ticket's project-scoped data onto another project
+const TRANSFER_INCLUDE = {
+  status: { select: { name: true } },
+  labels: { select: { labelId: true, label: { select: { name: true } } } },
+  customFields: { include: { field: true } },
+} as const;
+
+type TransferTicket = Prisma.TicketGetPayload<{
+  include: typeof TRANSFER_INCLUDE;
+}>;
+
+/** A project's columns, labels, and custom fields, keyed for matching. */
+interface TransferTarget {
+  projectId: string;
+  key: string;
+  /** The default column first. */
+  statuses: Status[];
+  /** By lower-cased name. */
+  labels: Map<string, string>;
+  /** By key. */
+  fields: Map<string, Pick<CustomField, 'id' | 'key' | 'type' | 'options'>>;
+}
 
 @Injectable()
 export class TicketsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly activityService: ActivityService,
+    private readonly watchersService: WatchersService,
+    private readonly notificationsService: NotificationsService,
+    private readonly mentionsService: MentionsService,
+    private readonly customFieldsService: CustomFieldsService,
+    private readonly workLogsService: WorkLogsService,
+    private readonly ticketRanksService: TicketRanksService,
+    private readonly wipLimitsService: WipLimitsService,
+    private readonly transitionsService: TransitionsService,
+    private readonly automationService: AutomationService,
+    private readonly slaService: SlaService,
+  ) {}
 
-  async create(projectId: string, userId: string, dto: CreateTicketDto) {
+  /**
+   * `recurringTicketId` links tickets created by a recurring ticket's
+   * schedule, reported by the user who set it up.
+   */
+  async create(
+    projectId: string,
+    userId: string,
+    dto: CreateTicketDto,
+    recurringTicketId?: string,
+  ) {
     await getProjectMember(this.prisma, projectId, userId);
 
     await this.validateStatusInProject(dto.statusId, projectId);
+    await this.validateHierarchy(projectId, dto.type ?? TicketType.TASK, {
+      parentId: dto.parentId,
+    });
+    if (dto.labelIds?.length) {
+      await this.validateLabelsInProject(dto.labelIds, projectId);
+    }
 
-    return this.prisma.$transaction(async (tx) => {
-      const lastTicket = await tx.ticket.findFirst({
-        where: { projectId },
-        orderBy: { number: 'desc' },
-        select: { number: true },
-      });
+    const customFieldWrites = await this.customFieldsService.resolveValues(
+      projectId,
+      dto.customFields,
+      'create',
+    );
 
-      const nextNumber = (lastTicket?.number ?? 0) + 1;
+    const projectKey = await this.getProjectKey(projectId);
 
-      const lastInColumn = await tx.ticket.findFirst({
-        where: { statusId: dto.statusId },
-        orderBy: { order: 'desc' },
-        select: { order: true },
-      });
+    const created = await this.prisma.$transaction(async (tx) => {
+      const nextNumber = await this.nextTicketNumber(tx, projectId);
 
-      const order = (lastInColumn?.order ?? -1) + 1;
+      await this.ticketRanksService.lockColumn(tx, dto.statusId);
+      const wipWarning = await this.wipLimitsService.enforce(tx, dto.statusId);
+      const rank = await this.ticketRanksService.rankAtEnd(tx, dto.statusId);
 
-      return tx.ticket.create({
+      const ticket = await tx.ticket.create({
         data: {
           title: dto.title,
           description: dto.description,
@@ -48,14 +175,32 @@ export class TicketsService {
           priority: dto.priority,
           statusId: dto.statusId,
           assigneeId: dto.assigneeId,
+          parentId: dto.parentId,
           reporterId: userId,
           projectId,
+          recurringTicketId,
           number: nextNumber,
-          order,
+          rank,
           dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
+          storyPoints: dto.storyPoints,
+          originalEstimate: dto.originalEstimate,
+          labels: dto.labelIds && {
+            create: [...new Set(dto.labelIds)].map((labelId) => ({ labelId })),
+          },
+          customFields: {
+            create: customFieldWrites.flatMap(({ field, data }) =>
+              data ? [{ fieldId: field.id, ...data }] : [],
+            ),
+          },
         },
         include: {
           status: true,
+          customFields: CUSTOM_FIELD_VALUES_INCLUDE,
+          labels: {
+            select: {
+              label: { select: { id: true, name: true, color: true } },
+            },
+          },
           assignee: {
             select: {
               id: true,
@@ -74,31 +219,55 @@ export class TicketsService {
           },
         },
       });
+
+      await this.activityService.record(tx, ticket.id, userId, [
+        { type: TicketEventType.CREATED },
+      ]);
+
+      await this.watchersService.watch(tx, ticket.id, [
+        userId,
+        ticket.assigneeId,
+      ]);
+
+      await this.notificationsService.notify(tx, [ticket.assigneeId], {
+        type: NotificationType.TICKET_ASSIGNED,
+        message: `You were assigned to #${ticket.number} "${ticket.title}"`,
+        actorId: userId,
+        ticketId: ticket.id,
+      });
+
+      const mentioned = await this.mentionsService.sync(tx, {
+        projectId,
+        ticket,
+        actorId: userId,
+        text: ticket.description,
+      });
+
+      return {
+        ...withCustomFieldValues(withTicketKey(projectKey, ticket)),
+        ...mentioned,
+        ...(wipWarning && { warnings: [wipWarning] }),
+      };
     });
+
+    this.automationService.dispatch(projectId, created.id, userId, [
+      { type: TicketEventType.CREATED },
+    ]);
+
+    return created;
   }
 
-  async findAll(
-    projectId: string,
-    userId: string,
-    filters: {
-      statusId?: string;
-      assigneeId?: string;
-      priority?: string;
-      type?: string;
-    },
-  ) {
+  async findAll(projectId: string, userId: string, query: ListTicketsQueryDto) {
     await getProjectMember(this.prisma, projectId, userId);
 
-    return this.prisma.ticket.findMany({
-      where: {
-        projectId,
-        ...(filters.statusId && { statusId: filters.statusId }),
-        ...(filters.assigneeId && { assigneeId: filters.assigneeId }),
-        ...(filters.priority && { priority: filters.priority as any }),
-        ...(filters.type && { type: filters.type as any }),
-      },
+    const tickets = await this.prisma.ticket.findMany({
+      where: await this.buildTicketWhere(projectId, userId, query),
       include: {
         status: true,
+        customFields: CUSTOM_FIELD_VALUES_INCLUDE,
+        labels: {
+          select: { label: { select: { id: true, name: true, color: true } } },
+        },
         assignee: {
           select: {
             id: true,
@@ -115,19 +284,86 @@ export class TicketsService {
             lastName: true,
           },
         },
-        _count: { select: { comments: true } },
+        _count: { select: { comments: { where: { deletedAt: null } } } },
+      },
+      orderBy: this.buildTicketOrderBy(query),
+      ...cursorArgs(query, TICKET_PAGE_SIZE),
+    });
+
+    const projectKey = await this.getProjectKey(projectId);
+
+    return toPage(
+      tickets.map((ticket) =>
+        withCustomFieldValues(withTicketKey(projectKey, ticket)),
+      ),
+      query,
+      TICKET_PAGE_SIZE,
+    );
+  }
+
+  /**
+   * Resolves a human-readable key like `LUME-42`. Membership is checked
+   * before the ticket lookup so non-members can't probe ticket numbers.
+   * The old key of a ticket moved to another project returns the ticket
+   * with `redirectedFrom` set.
+   */
+  async findByKey(key: string, userId: string) {
+    const parsed = parseTicketKey(key);
+
+    if (!parsed) {
+      throw new BadRequestException(
+        'Ticket key must look like PROJ-123 (project key, dash, number)',
+      );
+    }
+
+    const project = await this.prisma.project.findUnique({
+      where: { key: parsed.projectKey },
+      select: { id: true },
+    });
+
+    if (!project) throw new NotFoundException('Ticket not found');
+
+    // A moved ticket's old key; membership of its new project is what counts
+    const redirect = await this.prisma.ticketKeyRedirect.findUnique({
+      where: {
+        projectId_number: { projectId: project.id, number: parsed.number },
+      },
+      select: { ticket: { select: { id: true, projectId: true } } },
+    });
+
+    if (redirect) {
+      return {
+        ...(await this.findOne(
+          redirect.ticket.projectId,
+          redirect.ticket.id,
+          userId,
+        )),
+        redirectedFrom: formatTicketKey(parsed.projectKey, parsed.number),
+      };
+    }
+
+    await getProjectMember(this.prisma, project.id, userId);
+
+    const ticket = await this.prisma.ticket.findUnique({
+      where: {
+        projectId_number: { projectId: project.id, number: parsed.number },
       },
-      orderBy: [{ statusId: 'asc' }, { order: 'asc' }],
+      select: { id: true },
     });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    return this.findOne(project.id, ticket.id, userId);
   }
 
   async findOne(projectId: string, ticketId: string, userId: string) {
     await getProjectMember(this.prisma, projectId, userId);
 
     const ticket = await this.prisma.ticket.findFirst({
-      where: { id: ticketId, projectId },
+      where: { id: ticketId, projectId, deletedAt: null },
       include: {
         status: true,
+        customFields: CUSTOM_FIELD_VALUES_INCLUDE,
         assignee: {
           select: {
             id: true,
@@ -144,7 +380,44 @@ export class TicketsService {
             lastName: true,
           },
         },
+        labels: {
+          select: { label: { select: { id: true, name: true, color: true } } },
+        },
+        mentions: {
+          where: { commentId: null },
+          select: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+        },
+        parent: {
+          select: {
+            id: true,
+            number: true,
+            title: true,
+            type: true,
+            deletedAt: true,
+          },
+        },
+        children: {
+          where: { deletedAt: null },
+          select: {
+            id: true,
+            number: true,
+            title: true,
+            type: true,
+            status: { select: { id: true, name: true, isDone: true } },
+          },
+          orderBy: { number: 'asc' },
+        },
         comments: {
+          where: { deletedAt: null },
           include: {
             author: {
               select: {
@@ -157,12 +430,130 @@ export class TicketsService {
           },
           orderBy: { createdAt: 'asc' },
         },
+        // Only links to projects the caller can see
+        outgoingLinks: {
+          where: {
+            target: {
+              deletedAt: null,
+              project: { members: { some: { userId } } },
+            },
+          },
+          include: {
+            target: {
+              select: {
+                id: true,
+                number: true,
+                title: true,
+                projectId: true,
+                project: { select: { key: true } },
+                status: { select: { id: true, name: true, color: true } },
+              },
+            },
+          },
+        },
+        incomingLinks: {
+          where: {
+            source: {
+              deletedAt: null,
+              project: { members: { some: { userId } } },
+            },
+          },
+          include: {
+            source: {
+              select: {
+                id: true,
+                number: true,
+                title: true,
+                projectId: true,
+                project: { select: { key: true } },
+                status: { select: { id: true, name: true, color: true } },
+              },
+            },
+          },
+        },
       },
     });
 
     if (!ticket) throw new NotFoundException('Ticket not found');
 
-    return ticket;
+    const projectKey = await this.getProjectKey(projectId);
+    const timeSpent = await this.workLogsService.getTimeSpent(ticketId);
+
+    return {
+      ...withCustomFieldValues(withTicketKey(projectKey, ticket)),
+      timeSpent,
+      remainingEstimate: remainingEstimate(ticket.originalEstimate, timeSpent),
+      sla: await this.slaService.computeForTicket(ticket),
+      // A trashed parent is hidden; the link comes back if it is restored
+      parent:
+        ticket.parent && !ticket.parent.deletedAt
+          ? withTicketKey(projectKey, ticket.parent)
+          : null,
+      children: ticket.children.map((child) =>
+        withTicketKey(projectKey, child),
+      ),
+    };
+  }
+
+  async findChildren(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    const projectKey = await this.getProjectKey(projectId);
+
+    const children = await this.prisma.ticket.findMany({
+      where: { parentId: ticketId, deletedAt: null },
+      include: {
+        status: true,
+        assignee: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        _count: { select: { children: { where: { deletedAt: null } } } },
+      },
+      orderBy: { number: 'asc' },
+    });
+
+    return children.map((child) => withTicketKey(projectKey, child));
+  }
+
+  async getProgress(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    const counts = await this.prisma.ticket.groupBy({
+      by: ['statusId'],
+      where: { parentId: ticketId, deletedAt: null },
+      _count: { _all: true },
+    });
+
+    const statuses = await this.prisma.status.findMany({
+      where: { id: { in: counts.map((c) => c.statusId) } },
+      orderBy: { rank: 'asc' },
+    });
+
+    const byStatus = statuses.map((status) => ({
+      statusId: status.id,
+      name: status.name,
+      isDone: status.isDone,
+      count: counts.find((c) => c.statusId === status.id)?._count._all ?? 0,
+    }));
+
+    const total = byStatus.reduce((sum, s) => sum + s.count, 0);
+    const done = byStatus
+      .filter((s) => s.isDone)
+      .reduce((sum, s) => sum + s.count, 0);
+
+    return {
+      total,
+      done,
+      percent: total === 0 ? 0 : Math.round((done / total) * 100),
+      byStatus,
+    };
   }
 
   async update(
@@ -170,33 +561,114 @@ export class TicketsService {
     ticketId: string,
     userId: string,
     dto: UpdateTicketDto,
+    expectedVersion?: number,
   ) {
     await getProjectMember(this.prisma, projectId, userId);
 
     const ticket = await this.prisma.ticket.findFirst({
-      where: { id: ticketId, projectId },
+      where: { id: ticketId, projectId, deletedAt: null },
     });
 
     if (!ticket) throw new NotFoundException('Ticket not found');
 
-    return this.prisma.ticket.update({
-      where: { id: ticketId },
-      data: {
-        ...dto,
-        dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
-      },
-      include: {
-        status: true,
-        assignee: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
+    if (expectedVersion !== undefined && expectedVersion !== ticket.version) {
+      throw versionConflict(await this.findOne(projectId, ticketId, userId));
+    }
+
+    const { addLabelIds, removeLabelIds, customFields, ...fields } = dto;
+
+    if (addLabelIds?.length) {
+      await this.validateLabelsInProject(addLabelIds, projectId);
+    }
+
+    if (dto.parentId !== undefined || (dto.type && dto.type !== ticket.type)) {
+      await this.validateHierarchy(projectId, dto.type ?? ticket.type, {
+        ticketId,
+        parentId: dto.parentId === undefined ? ticket.parentId : dto.parentId,
+      });
+    }
+
+    const customFieldWrites = await this.customFieldsService.resolveValues(
+      projectId,
+      customFields,
+      'update',
+    );
+
+    const data = {
+      ...fields,
+      dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
+    };
+
+    const projectKey = await this.getProjectKey(projectId);
+    let events: TicketEventInput[] = [];
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      await this.claimVersion(tx, projectId, ticketId, userId, expectedVersion);
+
+      const labelEvents = await this.applyLabelChanges(
+        tx,
+        ticketId,
+        addLabelIds ?? [],
+        removeLabelIds ?? [],
+      );
+
+      const customFieldEvents = await this.customFieldsService.applyValues(
+        tx,
+        ticketId,
+        customFieldWrites,
+      );
+
+      const updated = await tx.ticket.update({
+        where: { id: ticketId },
+        data,
+        include: {
+          status: true,
+          customFields: CUSTOM_FIELD_VALUES_INCLUDE,
+          labels: {
+            select: {
+              label: { select: { id: true, name: true, color: true } },
+            },
+          },
+          assignee: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
+      });
+
+      events = [
+        ...this.activityService.diff(ticket, data),
+        ...labelEvents,
+        ...customFieldEvents,
+      ];
+
+      await this.activityService.record(tx, ticketId, userId, events);
+      await this.notifyTicketUpdated(tx, ticket, updated, events, userId);
+
+      if (dto.description === undefined) {
+        return withCustomFieldValues(withTicketKey(projectKey, updated));
+      }
+
+      const mentioned = await this.mentionsService.sync(tx, {
+        projectId,
+        ticket: updated,
+        actorId: userId,
+        text: updated.description,
+      });
+
+      return {
+        ...withCustomFieldValues(withTicketKey(projectKey, updated)),
+        ...mentioned,
+      };
     });
+
+    this.automationService.dispatch(projectId, ticketId, userId, events);
+
+    return result;
   }
 
   async move(
@@ -204,42 +676,100 @@ export class TicketsService {
     ticketId: string,
     userId: string,
     dto: MoveTicketDto,
+    expectedVersion?: number,
   ) {
-    await getProjectMember(this.prisma, projectId, userId);
+    const member = await getProjectMember(this.prisma, projectId, userId);
     await this.validateStatusInProject(dto.statusId, projectId);
 
-    return this.prisma.$transaction(async (tx) => {
+    const projectKey = await this.getProjectKey(projectId);
+    let events: TicketEventInput[] = [];
+
+    const result = await this.prisma.$transaction(async (tx) => {
       const ticket = await tx.ticket.findFirst({
-        where: { id: ticketId, projectId },
+        where: { id: ticketId, projectId, deletedAt: null },
       });
 
       if (!ticket) throw new NotFoundException('Ticket not found');
 
-      await tx.ticket.updateMany({
-        where: {
-          statusId: dto.statusId,
-          order: { gte: dto.order },
-          id: { not: ticketId },
-        },
-        data: { order: { increment: 1 } },
-      });
+      await this.claimVersion(tx, projectId, ticketId, userId, expectedVersion);
+      await this.transitionsService.assertCanMove(
+        tx,
+        ticket,
+        dto.statusId,
+        member.role,
+      );
 
-      return tx.ticket.update({
+      // Only the moved ticket is written; its neighbours keep their ranks
+      await this.ticketRanksService.lockColumn(tx, dto.statusId);
+
+      const wipWarning =
+        ticket.statusId === dto.statusId
+          ? null
+          : await this.wipLimitsService.enforce(tx, dto.statusId);
+
+      const rank = await this.ticketRanksService.rankAt(
+        tx,
+        dto.statusId,
+        dto.order,
+        ticketId,
+      );
+
+      const moved = await tx.ticket.update({
         where: { id: ticketId },
-        data: {
-          statusId: dto.statusId,
-          order: dto.order,
-        },
+        data: { statusId: dto.statusId, rank },
         include: { status: true },
       });
+
+      if (ticket.statusId !== dto.statusId) {
+        events = [
+          {
+            type: TicketEventType.MOVED,
+            field: 'statusId',
+            oldValue: ticket.statusId,
+            newValue: dto.statusId,
+          },
+        ];
+        await this.activityService.record(tx, ticketId, userId, events);
+
+        await this.notifyTicketMoved(tx, moved, moved.status.name, userId);
+      }
+
+      return {
+        ...withTicketKey(projectKey, moved),
+        ...(wipWarning && { warnings: [wipWarning] }),
+      };
     });
+
+    this.automationService.dispatch(projectId, ticketId, userId, events);
+
+    return result;
   }
 
-  async remove(projectId: string, ticketId: string, userId: string) {
+  /**
+   * Moves a ticket to another project under a new number; the old key
+   * keeps resolving through a redirect. Comments, attachments, work logs,
+   * links, and history travel with the ticket. Project-scoped data is
+   * matched in the target: the column and labels by name, custom fields by
+   * key and type. Anything without a match is dropped, as are the sprint
+   * and parent. Subtasks move along; an epic's children stay behind.
+   */
+  async moveToProject(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    dto: MoveTicketToProjectDto,
+    expectedVersion?: number,
+  ) {
     const member = await getProjectMember(this.prisma, projectId, userId);
+    await getProjectMember(this.prisma, dto.targetProjectId, userId);
+
+    if (dto.targetProjectId === projectId) {
+      throw new BadRequestException('The ticket is already in this project');
+    }
 
     const ticket = await this.prisma.ticket.findFirst({
-      where: { id: ticketId, projectId },
+      where: { id: ticketId, projectId, deletedAt: null },
+      include: TRANSFER_INCLUDE,
     });
 
     if (!ticket) throw new NotFoundException('Ticket not found');
@@ -251,13 +781,1071 @@ export class TicketsService {
 
     if (!isReporter && !isAdminOrOwner) {
       throw new ForbiddenException(
-        'Only the reporter, admin, or owner can delete this ticket',
+        'Only the reporter, admin, or owner can move this ticket to another project',
       );
     }
 
-    await this.prisma.ticket.delete({ where: { id: ticketId } });
+    if (ticket.type === TicketType.SUBTASK) {
+      throw new BadRequestException(
+        'Subtasks move with their parent; move the parent ticket instead',
+      );
+    }
 
-    return { message: 'Ticket deleted successfully' };
+    // Trashed children too, so a restore can't leave one in the old project
+    const children = await this.prisma.ticket.findMany({
+      where: { parentId: ticketId },
+      include: TRANSFER_INCLUDE,
+      orderBy: { number: 'asc' },
+    });
+    const subtasks = children.filter((c) => c.type === TicketType.SUBTASK);
+    const detached = children.filter((c) => c.type !== TicketType.SUBTASK);
+
+    const assigneeId =
+      dto.assigneeId === undefined ? ticket.assigneeId : dto.assigneeId;
+    const members = await this.findMemberIds(dto.targetProjectId, [
+      assigneeId,
+      ...subtasks.map((subtask) => subtask.assigneeId),
+    ]);
+
+    if (assigneeId && !members.has(assigneeId)) {
+      throw new BadRequestException(
+        dto.assigneeId === undefined
+          ? 'The assignee is not a member of the target project; pass assigneeId to reassign or null to unassign'
+          : 'The assignee is not a member of the target project',
+      );
+    }
+
+    const target = await this.loadTransferTarget(dto.targetProjectId);
+    if (dto.statusId) this.assertStatusInTarget(target, dto.statusId);
+
+    const sourceKey = await this.getProjectKey(projectId);
+    const changes: [string, string, TicketEventInput[]][] = [];
+    const warnings: WipLimitWarning[] = [];
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.claimVersion(tx, projectId, ticketId, userId, expectedVersion);
+
+      for (const moving of [ticket, ...subtasks]) {
+        const isSubtask = moving !== ticket;
+        const statusId =
+          !isSubtask && dto.statusId
+            ? dto.statusId
+            : this.mapStatus(target, moving.status.name);
+
+        await this.ticketRanksService.lockColumn(tx, statusId);
+        const wipWarning = await this.wipLimitsService.enforce(tx, statusId);
+        if (wipWarning) warnings.push(wipWarning);
+
+        const data = {
+          projectId: target.projectId,
+          number: await this.nextTicketNumber(tx, target.projectId),
+          assigneeId: isSubtask
+            ? moving.assigneeId && members.has(moving.assigneeId)
+              ? moving.assigneeId
+              : null
+            : assigneeId,
+          parentId: isSubtask ? moving.parentId : null,
+          sprintId: null,
+        };
+        const labelIds = this.mapLabels(target, moving.labels);
+
+        await tx.ticketKeyRedirect.create({
+          data: { projectId, number: moving.number, ticketId: moving.id },
+        });
+        await tx.ticketLabel.deleteMany({ where: { ticketId: moving.id } });
+        await tx.customFieldValue.deleteMany({
+          where: { ticketId: moving.id },
+        });
+
+        await tx.ticket.update({
+          where: { id: moving.id },
+          data: {
+            ...data,
+            statusId,
+            rank: await this.ticketRanksService.rankAtEnd(tx, statusId),
+            recurringTicketId: null,
+            // Re-armed so breaches are judged by the target's SLA policies
+            slaResponseBreachedAt: null,
+            slaResolutionBreachedAt: null,
+            version: isSubtask ? { increment: 1 } : undefined,
+            labels: { create: labelIds.map((labelId) => ({ labelId })) },
+            customFields: {
+              create: this.mapCustomFields(target, moving.customFields),
+            },
+          },
+        });
+
+        const events: TicketEventInput[] = [
+          ...this.activityService.diff(moving, data),
+          {
+            type: TicketEventType.MOVED,
+            field: 'statusId',
+            oldValue: moving.statusId,
+            newValue: statusId,
+          },
+          ...moving.labels.map((label) => ({
+            type: TicketEventType.UPDATED,
+            field: 'labelId',
+            oldValue: label.labelId,
+          })),
+          ...labelIds.map((labelId) => ({
+            type: TicketEventType.UPDATED,
+            field: 'labelId',
+            newValue: labelId,
+          })),
+        ];
+        await this.activityService.record(tx, moving.id, userId, events);
+        changes.push([target.projectId, moving.id, events]);
+
+        // Watchers who can't see the target project stop getting updates
+        await tx.ticketWatcher.deleteMany({
+          where: {
+            ticketId: moving.id,
+            user: {
+              projectMembers: { none: { projectId: target.projectId } },
+            },
+          },
+        });
+
+        const newKey = formatTicketKey(target.key, data.number);
+        await this.notificationsService.notifyWatchers(tx, moving.id, {
+          type: NotificationType.TICKET_MOVED,
+          message: `${formatTicketKey(sourceKey, moving.number)} "${moving.title}" was moved to ${newKey}`,
+          actorId: userId,
+        });
+
+        if (data.assigneeId && data.assigneeId !== moving.assigneeId) {
+          await this.watchersService.watch(tx, moving.id, [data.assigneeId]);
+          await this.notificationsService.notify(tx, [data.assigneeId], {
+            type: NotificationType.TICKET_ASSIGNED,
+            message: `You were assigned to ${newKey} "${moving.title}"`,
+            actorId: userId,
+            ticketId: moving.id,
+          });
+        }
+      }
+
+      for (const child of detached) {
+        await tx.ticket.update({
+          where: { id: child.id },
+          data: { parentId: null, version: { increment: 1 } },
+        });
+
+        const events = [
+          {
+            type: TicketEventType.UPDATED,
+            field: 'parentId',
+            oldValue: ticketId,
+            newValue: null,
+          },
+        ];
+        await this.activityService.record(tx, child.id, userId, events);
+        changes.push([projectId, child.id, events]);
+      }
+    });
+
+    for (const [changedProjectId, changedId, events] of changes) {
+      this.automationService.dispatch(
+        changedProjectId,
+        changedId,
+        userId,
+        events,
+      );
+    }
+
+    return {
+      ...(await this.findOne(target.projectId, ticketId, userId)),
+      previousKey: formatTicketKey(sourceKey, ticket.number),
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+
+  /**
+   * Copies a ticket into its own project or another one, reported by the
+   * caller. Project-scoped data is matched as in `moveToProject`, and an
+   * assignee who isn't a member of the target project is left off.
+   * Comments, links, and subtasks are copied only when asked for; copied
+   * subtasks don't bring their own comments or links.
+   */
+  async clone(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    dto: CloneTicketDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const targetProjectId = dto.targetProjectId ?? projectId;
+    const sameProject = targetProjectId === projectId;
+
+    if (!sameProject) {
+      await getProjectMember(this.prisma, targetProjectId, userId);
+    }
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+      include: TRANSFER_INCLUDE,
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    if (ticket.type === TicketType.SUBTASK && !sameProject) {
+      throw new BadRequestException(
+        'A subtask can only be cloned within its own project',
+      );
+    }
+
+    const subtasks = dto.subtasks
+      ? await this.prisma.ticket.findMany({
+          where: {
+            parentId: ticketId,
+            type: TicketType.SUBTASK,
+            deletedAt: null,
+          },
+          include: TRANSFER_INCLUDE,
+          orderBy: { number: 'asc' },
+        })
+      : [];
+
+    const members = await this.findMemberIds(
+      targetProjectId,
+      [ticket, ...subtasks].map((t) => t.assigneeId),
+    );
+
+    const target = await this.loadTransferTarget(targetProjectId);
+    if (dto.statusId) this.assertStatusInTarget(target, dto.statusId);
+
+    const created: string[] = [];
+    const warnings: WipLimitWarning[] = [];
+
+    const cloneId = await this.prisma.$transaction(async (tx) => {
+      const copy = async (
+        source: TransferTicket,
+        parentId: string | null,
+        statusId: string,
+        title: string,
+      ) => {
+        await this.ticketRanksService.lockColumn(tx, statusId);
+        const wipWarning = await this.wipLimitsService.enforce(tx, statusId);
+        if (wipWarning) warnings.push(wipWarning);
+
+        const copied = await tx.ticket.create({
+          data: {
+            title,
+            description: source.description,
+            type: source.type,
+            priority: source.priority,
+            dueDate: source.dueDate,
+            storyPoints: source.storyPoints,
+            originalEstimate: source.originalEstimate,
+            statusId,
+            rank: await this.ticketRanksService.rankAtEnd(tx, statusId),
+            number: await this.nextTicketNumber(tx, target.projectId),
+            projectId: target.projectId,
+            reporterId: userId,
+            assigneeId:
+              source.assigneeId && members.has(source.assigneeId)
+                ? source.assigneeId
+                : null,
+            parentId,
+            sprintId: sameProject ? source.sprintId : null,
+            labels: {
+              create: this.mapLabels(target, source.labels).map((labelId) => ({
+                labelId,
+              })),
+            },
+            customFields: {
+              create: this.mapCustomFields(target, source.customFields),
+            },
+          },
+        });
+
+        await this.activityService.record(tx, copied.id, userId, [
+          {
+            type: TicketEventType.CREATED,
+            field: 'clonedFromId',
+            newValue: source.id,
+          },
+        ]);
+
+        await this.watchersService.watch(tx, copied.id, [
+          userId,
+          copied.assigneeId,
+        ]);
+
+        await this.notificationsService.notify(tx, [copied.assigneeId], {
+          type: NotificationType.TICKET_ASSIGNED,
+          message: `You were assigned to ${formatTicketKey(target.key, copied.number)} "${copied.title}"`,
+          actorId: userId,
+          ticketId: copied.id,
+        });
+
+        created.push(copied.id);
+
+        return copied;
+      };
+
+      const clone = await copy(
+        ticket,
+        sameProject ? ticket.parentId : null,
+        dto.statusId ?? this.mapStatus(target, ticket.status.name),
+        dto.title ?? ticket.title,
+      );
+
+      if (dto.comments) {
+        const comments = await tx.comment.findMany({
+          where: { ticketId, deletedAt: null },
+          orderBy: { createdAt: 'asc' },
+        });
+
+        await tx.comment.createMany({
+          data: comments.map((comment) => ({
+            ticketId: clone.id,
+            authorId: comment.authorId,
+            body: comment.body,
+            isEdited: comment.isEdited,
+            createdAt: comment.createdAt,
+          })),
+        });
+      }
+
+      if (dto.links) {
+        // Only links to live tickets in projects the caller can see
+        const visible = {
+          deletedAt: null,
+          project: { members: { some: { userId } } },
+        };
+        const links = await tx.ticketLink.findMany({
+          where: {
+            OR: [
+              { sourceTicketId: ticketId, target: visible },
+              { targetTicketId: ticketId, source: visible },
+            ],
+          },
+        });
+
+        await tx.ticketLink.createMany({
+          data: links.map((link) => ({
+            type: link.type,
+            sourceTicketId:
+              link.sourceTicketId === ticketId ? clone.id : link.sourceTicketId,
+            targetTicketId:
+              link.targetTicketId === ticketId ? clone.id : link.targetTicketId,
+            createdById: userId,
+          })),
+        });
+      }
+
+      for (const subtask of subtasks) {
+        await copy(
+          subtask,
+          clone.id,
+          this.mapStatus(target, subtask.status.name),
+          subtask.title,
+        );
+      }
+
+      return clone.id;
+    });
+
+    for (const id of created) {
+      this.automationService.dispatch(target.projectId, id, userId, [
+        { type: TicketEventType.CREATED },
+      ]);
+    }
+
+    return {
+      ...(await this.findOne(target.projectId, cloneId, userId)),
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+
+  async remove(projectId: string, ticketId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const isReporter = ticket.reporterId === userId;
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (!isReporter && !isAdminOrOwner) {
+      throw new ForbiddenException(
+        'Only the reporter, admin, or owner can delete this ticket',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.trash(tx, ticketId, userId);
+    });
+
+    return { message: 'Ticket deleted successfully' };
+  }
+
+  /**
+   * Applies one action to many tickets in a single transaction. Tickets the
+   * caller may not change (e.g. deleting someone else's ticket as a MEMBER)
+   * are skipped and reported rather than failing the whole batch.
+   */
+  async bulk(projectId: string, userId: string, dto: BulkTicketOperationDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    if (dto.ticketIds && dto.filter) {
+      throw new BadRequestException(
+        'Provide either ticketIds or filter, not both',
+      );
+    }
+
+    const status =
+      dto.action === 'move'
+        ? await this.validateStatusInProject(dto.statusId!, projectId)
+        : null;
+
+    if (dto.action === 'addLabel') {
+      await this.validateLabelsInProject([dto.labelId!], projectId);
+    }
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: dto.ticketIds
+        ? { projectId, id: { in: dto.ticketIds }, deletedAt: null }
+        : await this.buildTicketWhere(projectId, userId, dto.filter ?? {}),
+      orderBy: { number: 'asc' },
+      take: BULK_TICKET_LIMIT + 1,
+    });
+
+    if (tickets.length > BULK_TICKET_LIMIT) {
+      throw new BadRequestException(
+        `The filter matches more than ${BULK_TICKET_LIMIT} tickets; narrow it down`,
+      );
+    }
+
+    const found = new Set(tickets.map((t) => t.id));
+    const results: BulkTicketResult[] = (dto.ticketIds ?? [])
+      .filter((id) => !found.has(id))
+      .map((ticketId) => ({ ticketId, result: 'not_found' }));
+
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+    const changes = new Map<string, TicketEventInput[]>();
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        if (status) {
+          await this.ticketRanksService.lockColumn(tx, status.id);
+        }
+
+        for (const ticket of tickets) {
+          const ref = { ticketId: ticket.id, number: ticket.number };
+
+          switch (dto.action) {
+            case 'update': {
+              const data = {
+                priority: dto.fields!.priority,
+                assigneeId: dto.fields!.assigneeId,
+                dueDate:
+                  dto.fields!.dueDate === undefined
+                    ? undefined
+                    : dto.fields!.dueDate && new Date(dto.fields!.dueDate),
+              };
+              const events = this.activityService.diff(ticket, data);
+
+              if (events.length === 0) {
+                results.push({ ...ref, result: 'unchanged' });
+                break;
+              }
+
+              const updated = await tx.ticket.update({
+                where: { id: ticket.id },
+                data: { ...data, version: { increment: 1 } },
+              });
+              await this.activityService.record(tx, ticket.id, userId, events);
+              await this.notifyTicketUpdated(
+                tx,
+                ticket,
+                updated,
+                events,
+                userId,
+              );
+              changes.set(ticket.id, events);
+              results.push({ ...ref, result: 'updated' });
+              break;
+            }
+
+            case 'move': {
+              if (ticket.statusId === status!.id) {
+                results.push({ ...ref, result: 'unchanged' });
+                break;
+              }
+
+              const denial = await this.transitionsService.checkMove(
+                tx,
+                ticket,
+                status!.id,
+                member.role,
+              );
+
+              if (denial) {
+                results.push({
+                  ...ref,
+                  result: denial.reason === 'role' ? 'forbidden' : 'blocked',
+                  message: denial.message,
+                });
+                break;
+              }
+
+              const wipCheck = await this.wipLimitsService.check(
+                tx,
+                status!.id,
+              );
+
+              if (wipCheck?.hard) {
+                results.push({
+                  ...ref,
+                  result: 'blocked',
+                  message: wipCheck.warning.message,
+                });
+                break;
+              }
+
+              await tx.ticket.update({
+                where: { id: ticket.id },
+                data: {
+                  statusId: status!.id,
+                  rank: await this.ticketRanksService.rankAtEnd(tx, status!.id),
+                  version: { increment: 1 },
+                },
+              });
+              const events = [
+                {
+                  type: TicketEventType.MOVED,
+                  field: 'statusId',
+                  oldValue: ticket.statusId,
+                  newValue: status!.id,
+                },
+              ];
+              await this.activityService.record(tx, ticket.id, userId, events);
+              await this.notifyTicketMoved(tx, ticket, status!.name, userId);
+              changes.set(ticket.id, events);
+              results.push({
+                ...ref,
+                result: 'moved',
+                ...(wipCheck && { message: wipCheck.warning.message }),
+              });
+              break;
+            }
+
+            case 'delete': {
+              if (ticket.reporterId !== userId && !isAdminOrOwner) {
+                results.push({
+                  ...ref,
+                  result: 'forbidden',
+                  message:
+                    'Only the reporter, admin, or owner can delete this ticket',
+                });
+                break;
+              }
+
+              await this.trash(tx, ticket.id, userId);
+              results.push({ ...ref, result: 'deleted' });
+              break;
+            }
+
+            case 'addLabel': {
+              const events = await this.applyLabelChanges(
+                tx,
+                ticket.id,
+                [dto.labelId!],
+                [],
+              );
+
+              if (events.length === 0) {
+                results.push({ ...ref, result: 'unchanged' });
+                break;
+              }
+
+              await tx.ticket.update({
+                where: { id: ticket.id },
+                data: { version: { increment: 1 } },
+              });
+              await this.activityService.record(tx, ticket.id, userId, events);
+              await this.notifyTicketUpdated(
+                tx,
+                ticket,
+                ticket,
+                events,
+                userId,
+              );
+              changes.set(ticket.id, events);
+              results.push({ ...ref, result: 'updated' });
+              break;
+            }
+          }
+        }
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+    );
+
+    for (const [ticketId, events] of changes) {
+      this.automationService.dispatch(projectId, ticketId, userId, events);
+    }
+
+    const summary: Partial<Record<BulkTicketResult['result'], number>> = {};
+    for (const { result } of results) {
+      summary[result] = (summary[result] ?? 0) + 1;
+    }
+
+    return { action: dto.action, summary, results };
+  }
+
+  private async findTicketInProject(projectId: string, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    return ticket;
+  }
+
+  /**
+   * Moves a ticket to the trash. Comments, attachments and history stay in
+   * place so a restore brings everything back; `TrashService` purges them.
+   */
+  private async trash(
+    tx: Prisma.TransactionClient,
+    ticketId: string,
+    userId: string,
+  ) {
+    await tx.ticket.update({
+      where: { id: ticketId },
+      data: {
+        deletedAt: new Date(),
+        deletedById: userId,
+        version: { increment: 1 },
+      },
+    });
+
+    await this.activityService.record(tx, ticketId, userId, [
+      { type: TicketEventType.DELETED },
+    ]);
+  }
+
+  /**
+   * Bumps the ticket's version as the first write of a transaction. With an
+   * `If-Match` version the bump only succeeds if no one else wrote since,
+   * which also closes the gap between the caller's read and this write.
+   */
+  private async claimVersion(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    expectedVersion: number | undefined,
+  ) {
+    const { count } = await tx.ticket.updateMany({
+      where: {
+        id: ticketId,
+        ...(expectedVersion !== undefined && { version: expectedVersion }),
+      },
+      data: { version: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw versionConflict(await this.findOne(projectId, ticketId, userId));
+    }
+  }
+
+  /**
+   * The next free number in a project. Numbers kept by redirects of moved
+   * tickets are skipped so their old keys stay unambiguous.
+   */
+  private async nextTicketNumber(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+  ) {
+    const lastTicket = await tx.ticket.findFirst({
+      where: { projectId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+    const lastRedirect = await tx.ticketKeyRedirect.findFirst({
+      where: { projectId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    return Math.max(lastTicket?.number ?? 0, lastRedirect?.number ?? 0) + 1;
+  }
+
+  private async loadTransferTarget(projectId: string): Promise<TransferTarget> {
+    const statuses = await this.prisma.status.findMany({
+      where: { board: { projectId } },
+      orderBy: [{ isDefault: 'desc' }, { rank: 'asc' }],
+    });
+
+    if (statuses.length === 0) {
+      throw new NotFoundException('The target project has no columns');
+    }
+
+    const labels = await this.prisma.label.findMany({ where: { projectId } });
+    const fields = await this.customFieldsService.findDefinitions(projectId);
+
+    return {
+      projectId,
+      key: await this.getProjectKey(projectId),
+      statuses,
+      labels: new Map(labels.map((l) => [l.name.toLowerCase(), l.id])),
+      fields: new Map(fields.map((f) => [f.key, f])),
+    };
+  }
+
+  private assertStatusInTarget(target: TransferTarget, statusId: string) {
+    if (!target.statuses.some((status) => status.id === statusId)) {
+      throw new BadRequestException(
+        'Status does not belong to the target project',
+      );
+    }
+  }
+
+  /** The column with the same name, or the target board's default. */
+  private mapStatus(target: TransferTarget, statusName: string) {
+    const name = statusName.toLowerCase();
+
+    return (
+      target.statuses.find((status) => status.name.toLowerCase() === name) ??
+      target.statuses[0]
+    ).id;
+  }
+
+  private mapLabels(
+    target: TransferTarget,
+    labels: TransferTicket['labels'],
+  ): string[] {
+    return labels.flatMap(({ label }) => {
+      const id = target.labels.get(label.name.toLowerCase());
+      return id ? [id] : [];
+    });
+  }
+
+  /**
+   * Values whose field exists in the target with the same key and type.
+   * Select values must also be options of the target field.
+   */
+  private mapCustomFields(
+    target: TransferTarget,
+    values: TransferTicket['customFields'],
+  ) {
+    return values.flatMap((value) => {
+      const field = target.fields.get(value.field.key);
+      if (!field || field.type !== value.field.type) return [];
+
+      const selected =
+        field.type === CustomFieldType.SINGLE_SELECT
+          ? [value.textValue ?? '']
+          : field.type === CustomFieldType.MULTI_SELECT
+            ? value.optionValues
+            : [];
+
+      if (!selected.every((option) => field.options.includes(option))) {
+        return [];
+      }
+
+      return [
+        {
+          fieldId: field.id,
+          textValue: value.textValue,
+          numberValue: value.numberValue,
+          dateValue: value.dateValue,
+          optionValues: value.optionValues,
+          userId: value.userId,
+        },
+      ];
+    });
+  }
+
+  private async findMemberIds(
+    projectId: string,
+    userIds: (string | null)[],
+  ): Promise<Set<string>> {
+    const members = await this.prisma.projectMember.findMany({
+      where: {
+        projectId,
+        userId: { in: userIds.filter((id): id is string => !!id) },
+      },
+      select: { userId: true },
+    });
+
+    return new Set(members.map((m) => m.userId));
+  }
+
+  private async getProjectKey(projectId: string) {
+    const { key } = await this.prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { key: true },
+    });
+
+    return key;
+  }
+
+  /**
+   * Enforces the epic → story/task/bug → subtask hierarchy for a ticket of
+   * the given type. `ticketId` is omitted for tickets that don't exist yet.
+   */
+  private async validateHierarchy(
+    projectId: string,
+    type: TicketType,
+    { ticketId, parentId }: { ticketId?: string; parentId?: string | null },
+  ) {
+    if (!parentId) {
+      if (type === TicketType.SUBTASK) {
+        throw new BadRequestException('A subtask must have a parent ticket');
+      }
+    } else {
+      const parent = await this.prisma.ticket.findFirst({
+        where: { id: parentId, deletedAt: null },
+      });
+
+      if (!parent) throw new NotFoundException('Parent ticket not found');
+
+      if (parent.projectId !== projectId) {
+        throw new BadRequestException(
+          'Parent ticket must belong to the same project',
+        );
+      }
+
+      if (!ALLOWED_PARENT_TYPES[type].includes(parent.type)) {
+        throw new BadRequestException(
+          `A ${type} cannot be a child of a ${parent.type}`,
+        );
+      }
+
+      if (ticketId) {
+        await this.assertNotAncestor(ticketId, parent.id);
+      }
+    }
+
+    if (ticketId) {
+      const invalidChild = await this.prisma.ticket.findFirst({
+        where: {
+          parentId: ticketId,
+          deletedAt: null,
+          type: {
+            notIn: CHILD_TYPES.filter((child) =>
+              ALLOWED_PARENT_TYPES[child].includes(type),
+            ),
+          },
+        },
+      });
+
+      if (invalidChild) {
+        throw new BadRequestException(
+          `A ${type} cannot contain its existing ${invalidChild.type} children`,
+        );
+      }
+    }
+  }
+
+  private async assertNotAncestor(ticketId: string, parentId: string) {
+    let currentId: string | null = parentId;
+
+    while (currentId) {
+      if (currentId === ticketId) {
+        throw new BadRequestException(
+          'A ticket cannot be nested under itself or its own descendants',
+        );
+      }
+
+      const current: { parentId: string | null } | null =
+        await this.prisma.ticket.findUnique({
+          where: { id: currentId },
+          select: { parentId: true },
+        });
+
+      currentId = current?.parentId ?? null;
+    }
+  }
+
+  private buildTicketOrderBy(
+    query: ListTicketsQueryDto,
+  ): Prisma.TicketOrderByWithRelationInput[] {
+    const direction = query.direction ?? 'asc';
+
+    if (!query.sort) {
+      return [{ statusId: 'asc' }, { rank: 'asc' }, { id: 'asc' }];
+    }
+
+    const primary: Prisma.TicketOrderByWithRelationInput =
+      query.sort === 'dueDate'
+        ? { dueDate: { sort: direction, nulls: 'last' } }
+        : { [query.sort]: direction };
+
+    return [primary, { id: direction }];
+  }
+
+  private async notifyTicketUpdated(
+    tx: Prisma.TransactionClient,
+    before: { assigneeId: string | null },
+    updated: {
+      id: string;
+      number: number;
+      title: string;
+      assigneeId: string | null;
+    },
+    events: TicketEventInput[],
+    userId: string,
+  ) {
+    const newAssigneeId =
+      updated.assigneeId !== before.assigneeId ? updated.assigneeId : null;
+
+    if (newAssigneeId) {
+      await this.watchersService.watch(tx, updated.id, [newAssigneeId]);
+      await this.notificationsService.notify(tx, [newAssigneeId], {
+        type: NotificationType.TICKET_ASSIGNED,
+        message: `You were assigned to #${updated.number} "${updated.title}"`,
+        actorId: userId,
+        ticketId: updated.id,
+      });
+    }
+
+    if (events.length > 0) {
+      const fields = [...new Set(events.map((event) => event.field))];
+
+      await this.notificationsService.notifyWatchers(
+        tx,
+        updated.id,
+        {
+          type: NotificationType.TICKET_UPDATED,
+          message: `#${updated.number} "${updated.title}" was updated: ${fields.join(', ')}`,
+          actorId: userId,
+        },
+        newAssigneeId ? [newAssigneeId] : [],
+      );
+    }
+  }
+
+  private async notifyTicketMoved(
+    tx: Prisma.TransactionClient,
+    ticket: { id: string; number: number; title: string },
+    statusName: string,
+    userId: string,
+  ) {
+    await this.notificationsService.notifyWatchers(tx, ticket.id, {
+      type: NotificationType.TICKET_MOVED,
+      message: `#${ticket.number} "${ticket.title}" was moved to ${statusName}`,
+      actorId: userId,
+    });
+  }
+
+  /**
+   * Adds and removes label assignments, returning one activity entry per
+   * label that was actually attached or detached.
+   */
+  private async applyLabelChanges(
+    tx: Prisma.TransactionClient,
+    ticketId: string,
+    addLabelIds: string[],
+    removeLabelIds: string[],
+  ): Promise<TicketEventInput[]> {
+    if (addLabelIds.length === 0 && removeLabelIds.length === 0) return [];
+
+    const current = await tx.ticketLabel.findMany({
+      where: { ticketId },
+      select: { labelId: true },
+    });
+    const currentIds = new Set(current.map((l) => l.labelId));
+
+    const added = [...new Set(addLabelIds)].filter(
+      (id) => !currentIds.has(id) && !removeLabelIds.includes(id),
+    );
+    const removed = [...new Set(removeLabelIds)].filter((id) =>
+      currentIds.has(id),
+    );
+
+    if (added.length > 0) {
+      await tx.ticketLabel.createMany({
+        data: added.map((labelId) => ({ ticketId, labelId })),
+      });
+    }
+
+    if (removed.length > 0) {
+      await tx.ticketLabel.deleteMany({
+        where: { ticketId, labelId: { in: removed } },
+      });
+    }
+
+    return [
+      ...added.map((labelId) => ({
+        type: TicketEventType.UPDATED,
+        field: 'labelId',
+        newValue: labelId,
+      })),
+      ...removed.map((labelId) => ({
+        type: TicketEventType.UPDATED,
+        field: 'labelId',
+        oldValue: labelId,
+      })),
+    ];
+  }
+
+  private async buildTicketWhere(
+    projectId: string,
+    userId: string,
+    filter: TicketFilter,
+  ): Promise<Prisma.TicketWhereInput> {
+    const search = filter.q
+      ? compileTicketQuery(parseTicketQuery(filter.q), {
+          userId,
+          now: new Date(),
+          customFields:
+            await this.customFieldsService.findDefinitions(projectId),
+        })
+      : undefined;
+
+    return {
+      projectId,
+      deletedAt: null,
+      ...(filter.statusId && { statusId: filter.statusId }),
+      ...(filter.assigneeId && { assigneeId: filter.assigneeId }),
+      ...(filter.sprintId && { sprintId: filter.sprintId }),
+      ...(filter.priority && { priority: filter.priority }),
+      ...(filter.type && { type: filter.type }),
+      ...(filter.overdue && {
+        dueDate: { lt: new Date() },
+        status: { isDone: false },
+      }),
+      AND: [...this.buildLabelFilter(filter), ...(search ? [search] : [])],
+    };
+  }
+
+  private buildLabelFilter(filter: TicketFilter): Prisma.TicketWhereInput[] {
+    if (!filter.labelIds?.length) return [];
+
+    if (filter.labelMatch === 'all') {
+      return filter.labelIds.map((labelId) => ({
+        labels: { some: { labelId } },
+      }));
+    }
+
+    return [{ labels: { some: { labelId: { in: filter.labelIds } } } }];
+  }
+
+  private async validateLabelsInProject(labelIds: string[], projectId: string) {
+    const uniqueIds = [...new Set(labelIds)];
+    const count = await this.prisma.label.count({
+      where: { id: { in: uniqueIds }, projectId },
+    });
+
+    if (count !== uniqueIds.length) {
+      throw new BadRequestException(
+        'One or more labels do not belong to this project',
+      );
+    }
   }
 
   private async validateStatusInProject(statusId: string, projectId: string) {
@@ -0,0 +1,75 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { Prisma } from 'src/generated/prisma/client';
+import { WipLimitMode } from 'src/generated/prisma/enums';
+
+/** Returned with a ticket that went over a column's soft WIP limit. */
+export interface WipLimitWarning {
+  type: 'WIP_LIMIT_EXCEEDED';
+  message: string;
+  statusId: string;
+  limit: number;
+  count: number;
+}
+
+/**
+ * Column WIP limits, for everything that puts a ticket into a column:
+ * creating, moving, restoring, and automation.
+ */
+@Injectable()
+export class WipLimitsService {
+  /**
+   * Checks whether one more ticket fits in a column. Call after
+   * `lockColumn`, so concurrent moves can't both take the last slot.
+   * Returns `null` when it fits.
+   */
+  async check(
+    tx: Prisma.TransactionClient,
+    statusId: string,
+  ): Promise<{ hard: boolean; warning: WipLimitWarning } | null> {
+    const status = await tx.status.findUniqueOrThrow({
+      where: { id: statusId },
+      include: { board: { select: { wipLimitMode: true } } },
+    });
+
+    if (status.wipLimit === null) return null;
+
+    const count = await tx.ticket.count({
+      where: { statusId, deletedAt: null },
+    });
+
+    if (count < status.wipLimit) return null;
+
+    return {
+      hard: status.board.wipLimitMode === WipLimitMode.HARD,
+      warning: {
+        type: 'WIP_LIMIT_EXCEEDED',
+        message: `Column "${status.name}" is at its WIP limit of ${status.wipLimit}`,
+        statusId,
+        limit: status.wipLimit,
+        count: count + 1,
+      },
+    };
+  }
+
+  /**
+   * Throws `409` when a ticket can't enter a full column on a board with
+   * hard WIP limits; on soft boards returns the warning to pass back.
+   */
+  async enforce(
+    tx: Prisma.TransactionClient,
+    statusId: string,
+  ): Promise<WipLimitWarning | null> {
+    const check = await this.check(tx, statusId);
+
+    if (check?.hard) {
+      const { message, limit, count } = check.warning;
+      throw new ConflictException({
+        message: `${message}. Move a ticket out of it first.`,
+        error: 'Conflict',
+        details: { statusId, limit, count: count - 1 },
+      });
+    }
+
+    return check?.warning ?? null;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  Matches,
+} from 'class-validator';
+import { Role } from 'src/generated/prisma/enums';
+
+/** Built-in ticket fields a transition can require. */
+export const TRANSITION_FIELDS = [
+  'assignee',
+  'description',
+  'dueDate',
+  'storyPoints',
+  'originalEstimate',
+  'sprint',
+] as const;
+
+export const TRANSITION_FIELD_PATTERN = new RegExp(
+  `^(${TRANSITION_FIELDS.join('|')}|cf\\.[a-z][a-z0-9_]{0,39})$`,
+);
+
+export class CreateTransitionDto {
+  @IsUUID()
+  fromStatusId: string;
+
+  @IsUUID()
+  toStatusId: string;
+
+  /** Minimum role needed to make the move; omit to allow any member. */
+  @IsEnum(Role)
+  @IsOptional()
+  requiredRole?: Role;
+
+  /** Fields that must be filled first, e.g. `assignee` or `cf.environment`. */
+  @IsArray()
+  @ArrayMaxSize(20)
+  @Matches(TRANSITION_FIELD_PATTERN, {
+    each: true,
+    message: `Each required field must be one of ${TRANSITION_FIELDS.join(', ')} or cf.<key>`,
+  })
+  @IsOptional()
+  requiredFields?: string[];
+}
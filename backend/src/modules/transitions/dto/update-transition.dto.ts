@@ -0,0 +1,29 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  Matches,
+} from 'class-validator';
+import { Role } from 'src/generated/prisma/enums';
+import {
+  TRANSITION_FIELDS,
+  TRANSITION_FIELD_PATTERN,
+} from './create-transition.dto';
+
+/** The columns of a transition are fixed; delete and recreate to change them. */
+export class UpdateTransitionDto {
+  /** `null` lets any member make the move again. */
+  @IsEnum(Role)
+  @IsOptional()
+  requiredRole?: Role | null;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @Matches(TRANSITION_FIELD_PATTERN, {
+    each: true,
+    message: `Each required field must be one of ${TRANSITION_FIELDS.join(', ')} or cf.<key>`,
+  })
+  @IsOptional()
+  requiredFields?: string[];
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TransitionsService } from './transitions.service';
+import { CreateTransitionDto } from './dto/create-transition.dto';
+import { UpdateTransitionDto } from './dto/update-transition.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class TransitionsController {
+  constructor(private readonly transitionsService: TransitionsService) {}
+
+  @Post(':projectId/transitions')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateTransitionDto,
+  ) {
+    return this.transitionsService.create(projectId, user.id, dto);
+  }
+
+  @Get(':projectId/transitions')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.transitionsService.findAll(projectId, user.id);
+  }
+
+  @Patch(':projectId/transitions/:transitionId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('transitionId') transitionId: string,
+    @Body() dto: UpdateTransitionDto,
+  ) {
+    return this.transitionsService.update(
+      projectId,
+      transitionId,
+      user.id,
+      dto,
+    );
+  }
+
+  @Delete(':projectId/transitions/:transitionId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('transitionId') transitionId: string,
+  ) {
+    return this.transitionsService.remove(projectId, transitionId, user.id);
+  }
+
+  @Get(':projectId/tickets/:ticketId/transitions')
+  findNext(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.transitionsService.findNext(projectId, ticketId, user.id);
+  }
+}
@@ -0,0 +1,411 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateTransitionDto } from './dto/create-transition.dto';
+import { UpdateTransitionDto } from './dto/update-transition.dto';
+import {
+  getProjectMember,
+  assertRole,
+  hasRole,
+} from '../../common/helpers/project-access.helper';
+import { Role } from 'src/generated/prisma/enums';
+import { Prisma, Ticket } from 'src/generated/prisma/client';
+
+const FIELD_LABELS: Record<string, string> = {
+  assignee: 'an assignee',
+  description: 'a description',
+  dueDate: 'a due date',
+  storyPoints: 'story points',
+  originalEstimate: 'an original estimate',
+  sprint: 'a sprint',
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.OWNER]: 'the owner',
+  [Role.ADMIN]: 'an admin or owner',
+  [Role.MEMBER]: 'a member',
+};
+
+const TRANSITION_INCLUDE = {
+  fromStatus: { select: { id: true, name: true } },
+  toStatus: { select: { id: true, name: true, color: true, isDone: true } },
+} as const;
+
+type TransitionWithStatuses = Prisma.StatusTransitionGetPayload<{
+  include: typeof TRANSITION_INCLUDE;
+}>;
+
+/** The ticket columns transition conditions look at. */
+export type TransitionTicket = Pick<
+  Ticket,
+  | 'id'
+  | 'projectId'
+  | 'statusId'
+  | 'assigneeId'
+  | 'description'
+  | 'dueDate'
+  | 'storyPoints'
+  | 'originalEstimate'
+  | 'sprintId'
+>;
+
+/** Why the workflow refuses a move; `role` denials are 403s, the rest 409s. */
+export interface TransitionDenial {
+  reason: 'not_allowed' | 'role' | 'fields';
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/** A project's custom fields by key, with whether the ticket has a value. */
+type CustomFieldState = Map<string, { name: string; filled: boolean }>;
+
+@Injectable()
+export class TransitionsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(projectId: string, userId: string, dto: CreateTransitionDto) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    if (dto.fromStatusId === dto.toStatusId) {
+      throw new BadRequestException(
+        'A transition must lead to a different status',
+      );
+    }
+
+    const statuses = await this.prisma.status.findMany({
+      where: {
+        id: { in: [dto.fromStatusId, dto.toStatusId] },
+        board: { projectId },
+      },
+    });
+
+    if (statuses.length !== 2) {
+      throw new NotFoundException('Status not found in this project');
+    }
+
+    await this.assertCustomFieldsExist(projectId, dto.requiredFields ?? []);
+
+    const existing = await this.prisma.statusTransition.findUnique({
+      where: {
+        fromStatusId_toStatusId: {
+          fromStatusId: dto.fromStatusId,
+          toStatusId: dto.toStatusId,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A transition between these statuses already exists',
+      );
+    }
+
+    return this.prisma.statusTransition.create({
+      data: {
+        fromStatusId: dto.fromStatusId,
+        toStatusId: dto.toStatusId,
+        requiredRole: dto.requiredRole,
+        requiredFields: dto.requiredFields,
+      },
+      include: TRANSITION_INCLUDE,
+    });
+  }
+
+  /** Every transition on the board, grouped by source column. */
+  async findAll(projectId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    return this.prisma.statusTransition.findMany({
+      where: { fromStatus: { board: { projectId } } },
+      include: TRANSITION_INCLUDE,
+      orderBy: [{ fromStatus: { rank: 'asc' } }, { toStatus: { rank: 'asc' } }],
+    });
+  }
+
+  async update(
+    projectId: string,
+    transitionId: string,
+    userId: string,
+    dto: UpdateTransitionDto,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findTransitionInProject(projectId, transitionId);
+    await this.assertCustomFieldsExist(projectId, dto.requiredFields ?? []);
+
+    return this.prisma.statusTransition.update({
+      where: { id: transitionId },
+      data: dto,
+      include: TRANSITION_INCLUDE,
+    });
+  }
+
+  async remove(projectId: string, transitionId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    await this.findTransitionInProject(projectId, transitionId);
+
+    await this.prisma.statusTransition.delete({ where: { id: transitionId } });
+
+    return { message: 'Transition deleted successfully' };
+  }
+
+  /**
+   * The columns the ticket could move to next and whether the current user
+   * may move it there now. Without transitions out of its column, every
+   * other column is open.
+   */
+  async findNext(projectId: string, ticketId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const transitions = await this.findOutgoing(this.prisma, ticket.statusId);
+
+    if (transitions.length === 0) {
+      const statuses = await this.prisma.status.findMany({
+        where: { board: { projectId }, id: { not: ticket.statusId } },
+        select: { id: true, name: true, color: true, isDone: true },
+        orderBy: { rank: 'asc' },
+      });
+
+      return {
+        ticketId,
+        statusId: ticket.statusId,
+        restricted: false,
+        statuses: statuses.map((status) => ({
+          status,
+          transitionId: null,
+          allowed: true,
+          reason: null,
+        })),
+      };
+    }
+
+    const customFields = await this.getCustomFieldState(this.prisma, ticket);
+
+    return {
+      ticketId,
+      statusId: ticket.statusId,
+      restricted: true,
+      statuses: transitions.map((transition) => {
+        const denial = this.evaluate(
+          transition,
+          ticket,
+          member.role,
+          customFields,
+        );
+
+        return {
+          status: transition.toStatus,
+          transitionId: transition.id,
+          allowed: !denial,
+          reason: denial?.message ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Why the workflow refuses moving the ticket to `toStatusId`, or `null`
+   * when it may go. Reordering within a column is always allowed.
+   */
+  async checkMove(
+    client: Prisma.TransactionClient,
+    ticket: TransitionTicket,
+    toStatusId: string,
+    role: Role,
+  ): Promise<TransitionDenial | null> {
+    if (ticket.statusId === toStatusId) return null;
+
+    const transitions = await this.findOutgoing(client, ticket.statusId);
+    if (transitions.length === 0) return null;
+
+    const transition = transitions.find((t) => t.toStatusId === toStatusId);
+
+    if (!transition) {
+      const targets = transitions.map((t) => `"${t.toStatus.name}"`);
+
+      return {
+        reason: 'not_allowed',
+        message: `Tickets in "${transitions[0].fromStatus.name}" can only move to ${joinList(targets, 'or')}`,
+        details: {
+          fromStatusId: ticket.statusId,
+          toStatusId,
+          allowedStatusIds: transitions.map((t) => t.toStatusId),
+        },
+      };
+    }
+
+    return this.evaluate(
+      transition,
+      ticket,
+      role,
+      await this.getCustomFieldState(client, ticket),
+    );
+  }
+
+  /** Throws the denial from `checkMove`, if any. */
+  async assertCanMove(
+    client: Prisma.TransactionClient,
+    ticket: TransitionTicket,
+    toStatusId: string,
+    role: Role,
+  ) {
+    const denial = await this.checkMove(client, ticket, toStatusId, role);
+    if (!denial) return;
+
+    if (denial.reason === 'role') {
+      throw new ForbiddenException(denial.message);
+    }
+
+    throw new ConflictException({
+      message: denial.message,
+      error: 'Conflict',
+      details: denial.details,
+    });
+  }
+
+  private evaluate(
+    transition: TransitionWithStatuses,
+    ticket: TransitionTicket,
+    role: Role,
+    customFields: CustomFieldState,
+  ): TransitionDenial | null {
+    const move = `from "${transition.fromStatus.name}" to "${transition.toStatus.name}"`;
+
+    if (transition.requiredRole && !hasRole(role, transition.requiredRole)) {
+      return {
+        reason: 'role',
+        message: `Only ${ROLE_LABELS[transition.requiredRole]} can move tickets ${move}`,
+        details: { requiredRole: transition.requiredRole },
+      };
+    }
+
+    // Custom fields deleted since the transition was set up can't be
+    // filled in, so they no longer count
+    const missing = transition.requiredFields.filter((field) =>
+      field.startsWith('cf.')
+        ? customFields.get(field.slice(3))?.filled === false
+        : !this.isFilled(ticket, field),
+    );
+
+    if (missing.length === 0) return null;
+
+    const labels = missing.map((field) =>
+      field.startsWith('cf.')
+        ? `"${customFields.get(field.slice(3))!.name}"`
+        : FIELD_LABELS[field],
+    );
+
+    return {
+      reason: 'fields',
+      message: `Moving ${move} requires ${joinList(labels, 'and')}`,
+      details: { missingFields: missing },
+    };
+  }
+
+  private isFilled(ticket: TransitionTicket, field: string) {
+    switch (field) {
+      case 'assignee':
+        return ticket.assigneeId !== null;
+      case 'description':
+        return !!ticket.description?.trim();
+      case 'dueDate':
+        return ticket.dueDate !== null;
+      case 'storyPoints':
+        return ticket.storyPoints !== null;
+      case 'originalEstimate':
+        return ticket.originalEstimate !== null;
+      case 'sprint':
+        return ticket.sprintId !== null;
+      default:
+        return true;
+    }
+  }
+
+  private findOutgoing(client: Prisma.TransactionClient, statusId: string) {
+    return client.statusTransition.findMany({
+      where: { fromStatusId: statusId },
+      include: TRANSITION_INCLUDE,
+      orderBy: { toStatus: { rank: 'asc' } },
+    });
+  }
+
+  /** Cleared values are deleted, so a value row means the field is filled. */
+  private async getCustomFieldState(
+    client: Prisma.TransactionClient,
+    ticket: TransitionTicket,
+  ): Promise<CustomFieldState> {
+    const fields = await client.customField.findMany({
+      where: { projectId: ticket.projectId },
+      select: {
+        key: true,
+        name: true,
+        values: { where: { ticketId: ticket.id }, select: { ticketId: true } },
+      },
+    });
+
+    return new Map(
+      fields.map((field) => [
+        field.key,
+        { name: field.name, filled: field.values.length > 0 },
+      ]),
+    );
+  }
+
+  private async assertCustomFieldsExist(projectId: string, fields: string[]) {
+    const keys = fields
+      .filter((field) => field.startsWith('cf.'))
+      .map((field) => field.slice(3));
+
+    if (keys.length === 0) return;
+
+    const found = await this.prisma.customField.findMany({
+      where: { projectId, key: { in: keys } },
+      select: { key: true },
+    });
+    const foundKeys = new Set(found.map((field) => field.key));
+    const unknown = keys.filter((key) => !foundKeys.has(key));
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown custom field: ${unknown.map((key) => `cf.${key}`).join(', ')}`,
+      );
+    }
+  }
+
+  private async findTransitionInProject(
+    projectId: string,
+    transitionId: string,
+  ) {
+    const transition = await this.prisma.statusTransition.findFirst({
+      where: { id: transitionId, fromStatus: { board: { projectId } } },
+    });
+
+    if (!transition) {
+      throw new NotFoundException('Transition not found in this project');
+    }
+
+    return transition;
+  }
+}
+
+/** `"a"`, `"a and b"`, `"a, b and c"`. */
+function joinList(items: string[], conjunction: 'and' | 'or') {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(', ')} ${conjunction} ${items.at(-1)}`
+    : items[0];
+}
@@ -0,0 +1,13 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+
+export const TRASH_ITEM_TYPES = ['tickets', 'comments'] as const;
+
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export class ListTrashQueryDto extends PaginationQueryDto {
+  /** Defaults to `tickets`. */
+  @IsIn(TRASH_ITEM_TYPES)
+  @IsOptional()
+  type?: TrashItemType;
+}
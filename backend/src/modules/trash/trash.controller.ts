@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TrashService } from './trash.service';
+import { ListTrashQueryDto } from './dto/list-trash-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class TrashController {
+  constructor(private readonly trashService: TrashService) {}
+
+  @Get(':projectId/trash')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Query() query: ListTrashQueryDto,
+  ) {
+    return this.trashService.findAll(projectId, user.id, query);
+  }
+
+  @Delete(':projectId/trash')
+  @HttpCode(HttpStatus.OK)
+  empty(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+  ) {
+    return this.trashService.empty(projectId, user.id);
+  }
+
+  @Post(':projectId/trash/tickets/:ticketId/restore')
+  @HttpCode(HttpStatus.OK)
+  restoreTicket(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.trashService.restoreTicket(projectId, ticketId, user.id);
+  }
+
+  @Delete(':projectId/trash/tickets/:ticketId')
+  @HttpCode(HttpStatus.OK)
+  purgeTicket(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.trashService.purgeTicket(projectId, ticketId, user.id);
+  }
+
+  @Post(':projectId/trash/comments/:commentId/restore')
+  @HttpCode(HttpStatus.OK)
+  restoreComment(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('commentId') commentId: string,
+  ) {
+    return this.trashService.restoreComment(projectId, commentId, user.id);
+  }
+
+  @Delete(':projectId/trash/comments/:commentId')
+  @HttpCode(HttpStatus.OK)
+  purgeComment(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('commentId') commentId: string,
+  ) {
+    return this.trashService.purgeComment(projectId, commentId, user.id);
+  }
+}
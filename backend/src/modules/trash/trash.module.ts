@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TrashService } from './trash.service';
+import { TrashController } from './trash.controller';
+import { ActivityModule } from '../activity/activity.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+import { TicketsModule } from '../tickets/tickets.module';
+
+@Module({
+  imports: [ActivityModule, AttachmentsModule, TicketsModule],
+  controllers: [TrashController],
+  providers: [TrashService],
+})
+export class TrashModule {}
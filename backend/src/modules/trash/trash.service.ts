@@ -0,0 +1,306 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ActivityService } from '../activity/activity.service';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { TicketRanksService } from '../tickets/ticket-ranks.service';
+import { WipLimitsService } from '../tickets/wip-limits.service';
+import { ListTrashQueryDto } from './dto/list-trash-query.dto';
+import {
+  getProjectMember,
+  assertRole,
+} from '../../common/helpers/project-access.helper';
+import { Role, TicketEventType } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+import { formatTicketKey, withTicketKey } from '../tickets/ticket-key.helper';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TrashService {
+  private readonly logger = new Logger(TrashService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly activityService: ActivityService,
+    private readonly attachmentsService: AttachmentsService,
+    private readonly ticketRanksService: TicketRanksService,
+    private readonly wipLimitsService: WipLimitsService,
+  ) {}
+
+  /**
+   * Trashed tickets or comments, most recently deleted first. Comments on a
+   * trashed ticket are listed with the ticket, not on their own.
+   */
+  async findAll(projectId: string, userId: string, query: ListTrashQueryDto) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const { key: projectKey } = await this.prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { key: true },
+    });
+
+    if (query.type === 'comments') {
+      const comments = await this.prisma.comment.findMany({
+        where: {
+          deletedAt: { not: null },
+          ticket: { projectId, deletedAt: null },
+        },
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          deletedBy: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          ticket: { select: { id: true, number: true, title: true } },
+        },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        ...cursorArgs(query),
+      });
+
+      return toPage(
+        comments.map((comment) => ({
+          ...comment,
+          ticket: withTicketKey(projectKey, comment.ticket),
+          purgeAt: this.purgeAt(comment.deletedAt!),
+        })),
+        query,
+      );
+    }
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: { projectId, deletedAt: { not: null } },
+      include: {
+        status: true,
+        reporter: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+        deletedBy: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+        _count: { select: { comments: { where: { deletedAt: null } } } },
+      },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(
+      tickets.map((ticket) => ({
+        ...withTicketKey(projectKey, ticket),
+        purgeAt: this.purgeAt(ticket.deletedAt!),
+      })),
+      query,
+    );
+  }
+
+  /**
+   * Same permission as deleting: the reporter, an admin or the owner. The
+   * ticket goes back to its column, so the column's WIP limit applies.
+   */
+  async restoreTicket(projectId: string, ticketId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: { not: null } },
+      include: { project: { select: { key: true } } },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found in trash');
+
+    const isReporter = ticket.reporterId === userId;
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (!isReporter && !isAdminOrOwner) {
+      throw new ForbiddenException(
+        'Only the reporter, admin, or owner can restore this ticket',
+      );
+    }
+
+    const wipWarning = await this.prisma.$transaction(async (tx) => {
+      await this.ticketRanksService.lockColumn(tx, ticket.statusId);
+      const wipWarning = await this.wipLimitsService.enforce(
+        tx,
+        ticket.statusId,
+      );
+
+      await tx.ticket.update({
+        where: { id: ticketId },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+          version: { increment: 1 },
+        },
+      });
+
+      await this.activityService.record(tx, ticketId, userId, [
+        { type: TicketEventType.RESTORED },
+      ]);
+
+      return wipWarning;
+    });
+
+    return {
+      message: `Ticket ${formatTicketKey(ticket.project.key, ticket.number)} restored successfully`,
+      ...(wipWarning && { warnings: [wipWarning] }),
+    };
+  }
+
+  /**
+   * Same permission as deleting: the author, an admin or the owner. A
+   * comment on a trashed ticket comes back only with its ticket.
+   */
+  async restoreComment(projectId: string, commentId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+
+    const comment = await this.prisma.comment.findFirst({
+      where: { id: commentId, deletedAt: { not: null }, ticket: { projectId } },
+      include: { ticket: { select: { deletedAt: true } } },
+    });
+
+    if (!comment) throw new NotFoundException('Comment not found in trash');
+
+    const isAuthor = comment.authorId === userId;
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (!isAuthor && !isAdminOrOwner) {
+      throw new ForbiddenException('You can only restore your own comments');
+    }
+
+    if (comment.ticket.deletedAt) {
+      throw new ConflictException(
+        'The ticket of this comment is in the trash. Restore the ticket first.',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.comment.update({
+        where: { id: commentId },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+          version: { increment: 1 },
+        },
+      });
+
+      await this.activityService.record(tx, comment.ticketId, userId, [
+        { type: TicketEventType.COMMENT_RESTORED, commentId },
+      ]);
+    });
+
+    return { message: 'Comment restored successfully' };
+  }
+
+  async purgeTicket(projectId: string, ticketId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: { not: null } },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found in trash');
+
+    await this.purge({ id: ticketId }, null);
+
+    return { message: 'Ticket permanently deleted' };
+  }
+
+  async purgeComment(projectId: string, commentId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const comment = await this.prisma.comment.findFirst({
+      where: { id: commentId, deletedAt: { not: null }, ticket: { projectId } },
+    });
+
+    if (!comment) throw new NotFoundException('Comment not found in trash');
+
+    await this.purge(null, { id: commentId });
+
+    return { message: 'Comment permanently deleted' };
+  }
+
+  async empty(projectId: string, userId: string) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    assertRole(member.role, Role.ADMIN);
+
+    const purged = await this.purge(
+      { projectId, deletedAt: { not: null } },
+      { deletedAt: { not: null }, ticket: { projectId } },
+    );
+
+    return { message: 'Trash emptied successfully', purged };
+  }
+
+  /** Permanently removes anything that has been in the trash too long. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpired() {
+    const retentionDays = this.config.get<number>('trash.retentionDays')!;
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+
+    const purged = await this.purge(
+      { deletedAt: { lt: cutoff } },
+      { deletedAt: { lt: cutoff } },
+    );
+
+    if (purged.tickets > 0 || purged.comments > 0) {
+      this.logger.log(
+        `Purged ${purged.tickets} ticket(s) and ${purged.comments} comment(s) from the trash`,
+      );
+    }
+  }
+
+  /**
+   * Hard-deletes the matching rows (their attachments, history and links
+   * cascade) and then the attachment blobs. `null` skips that kind.
+   */
+  private async purge(
+    tickets: Prisma.TicketWhereInput | null,
+    comments: Prisma.CommentWhereInput | null,
+  ) {
+    const storageKeys = await this.attachmentsService.findStorageKeys({
+      OR: [
+        ...(tickets ? [{ ticket: tickets }] : []),
+        ...(comments ? [{ comment: comments }] : []),
+      ],
+    });
+
+    const [deletedComments, deletedTickets] = await this.prisma.$transaction([
+      this.prisma.comment.deleteMany({ where: comments ?? { id: { in: [] } } }),
+      this.prisma.ticket.deleteMany({ where: tickets ?? { id: { in: [] } } }),
+    ]);
+
+    await this.attachmentsService.deleteBlobs(storageKeys);
+
+    return { tickets: deletedTickets.count, comments: deletedComments.count };
+  }
+
+  private purgeAt(deletedAt: Date) {
+    const retentionDays = this.config.get<number>('trash.retentionDays')!;
+    return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { WatchersService } from './watchers.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class WatchersController {
+  constructor(private readonly watchersService: WatchersService) {}
+
+  @Get(':projectId/tickets/:ticketId/watchers')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.watchersService.findAll(projectId, ticketId, user.id);
+  }
+
+  @Post(':projectId/tickets/:ticketId/watchers')
+  @HttpCode(HttpStatus.OK)
+  add(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.watchersService.add(projectId, ticketId, user.id);
+  }
+
+  @Delete(':projectId/tickets/:ticketId/watchers')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+  ) {
+    return this.watchersService.remove(projectId, ticketId, user.id);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WatchersService } from './watchers.service';
+import { WatchersController } from './watchers.controller';
+
+@Module({
+  controllers: [WatchersController],
+  providers: [WatchersService],
+  exports: [WatchersService],
+})
+export class WatchersModule {}
@@ -0,0 +1,77 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+
+@Injectable()
+export class WatchersService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Subscribes users to a ticket. Existing watchers and empty ids are
+   * skipped, so callers can pass e.g. an unset assignee directly.
+   */
+  async watch(
+    client: Prisma.TransactionClient,
+    ticketId: string,
+    userIds: (string | null | undefined)[],
+  ): Promise<void> {
+    const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return;
+
+    await client.ticketWatcher.createMany({
+      data: ids.map((userId) => ({ ticketId, userId })),
+      skipDuplicates: true,
+    });
+  }
+
+  async findAll(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    return this.prisma.ticketWatcher.findMany({
+      where: { ticketId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async add(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    await this.watch(this.prisma, ticketId, [userId]);
+
+    return { message: 'Watching ticket' };
+  }
+
+  async remove(projectId: string, ticketId: string, userId: string) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    await this.prisma.ticketWatcher.deleteMany({
+      where: { ticketId, userId },
+    });
+
+    return { message: 'Stopped watching ticket' };
+  }
+
+  private async findTicketInProject(projectId: string, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    return ticket;
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Matches,
+  MaxLength,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** One day's worth of minutes is the most a single entry can record. */
+export const MAX_WORK_LOG_MINUTES = 24 * 60;
+
+export class CreateWorkLogDto {
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORK_LOG_MINUTES)
+  minutes: number;
+
+  /** Defaults to today (UTC). */
+  @IsDateString()
+  @Matches(DATE_ONLY_PATTERN, { message: 'date must be a YYYY-MM-DD date' })
+  @IsOptional()
+  date?: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,22 @@
+import { IsDateString, IsOptional, IsUUID, Matches } from 'class-validator';
+import { DATE_ONLY_PATTERN } from './create-work-log.dto';
+
+/** Inclusive `YYYY-MM-DD` bounds on the work log date; either may be omitted. */
+export class TimeSummaryQueryDto {
+  @IsDateString()
+  @Matches(DATE_ONLY_PATTERN, { message: 'from must be a YYYY-MM-DD date' })
+  @IsOptional()
+  from?: string;
+
+  @IsDateString()
+  @Matches(DATE_ONLY_PATTERN, { message: 'to must be a YYYY-MM-DD date' })
+  @IsOptional()
+  to?: string;
+}
+
+export class ProjectTimeSummaryQueryDto extends TimeSummaryQueryDto {
+  /** Limit the summary to one user's logs. */
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+}
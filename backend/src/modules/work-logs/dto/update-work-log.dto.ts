@@ -0,0 +1,30 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Matches,
+  MaxLength,
+  Max,
+  Min,
+} from 'class-validator';
+import { DATE_ONLY_PATTERN, MAX_WORK_LOG_MINUTES } from './create-work-log.dto';
+
+export class UpdateWorkLogDto {
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORK_LOG_MINUTES)
+  @IsOptional()
+  minutes?: number;
+
+  @IsDateString()
+  @Matches(DATE_ONLY_PATTERN, { message: 'date must be a YYYY-MM-DD date' })
+  @IsOptional()
+  date?: string;
+
+  /** `null` removes the note. */
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string | null;
+}
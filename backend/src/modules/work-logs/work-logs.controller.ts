@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { WorkLogsService } from './work-logs.service';
+import { CreateWorkLogDto } from './dto/create-work-log.dto';
+import { UpdateWorkLogDto } from './dto/update-work-log.dto';
+import {
+  ProjectTimeSummaryQueryDto,
+  TimeSummaryQueryDto,
+} from './dto/time-summary-query.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller({ path: 'projects', version: '1' })
+@UseGuards(JwtAuthGuard)
+export class WorkLogsController {
+  constructor(private readonly workLogsService: WorkLogsService) {}
+
+  @Get(':projectId/time-summary')
+  getProjectSummary(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Query() query: ProjectTimeSummaryQueryDto,
+  ) {
+    return this.workLogsService.getProjectSummary(projectId, user.id, query);
+  }
+
+  @Get(':projectId/tickets/:ticketId/time-summary')
+  getTicketSummary(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Query() query: TimeSummaryQueryDto,
+  ) {
+    return this.workLogsService.getTicketSummary(
+      projectId,
+      ticketId,
+      user.id,
+      query,
+    );
+  }
+
+  @Get(':projectId/tickets/:ticketId/work-logs')
+  findAll(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.workLogsService.findAll(projectId, ticketId, user.id, query);
+  }
+
+  @Post(':projectId/tickets/:ticketId/work-logs')
+  create(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Body() dto: CreateWorkLogDto,
+  ) {
+    return this.workLogsService.create(projectId, ticketId, user.id, dto);
+  }
+
+  @Patch(':projectId/tickets/:ticketId/work-logs/:workLogId')
+  update(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('workLogId') workLogId: string,
+    @Body() dto: UpdateWorkLogDto,
+  ) {
+    return this.workLogsService.update(
+      projectId,
+      ticketId,
+      workLogId,
+      user.id,
+      dto,
+    );
+  }
+
+  @Delete(':projectId/tickets/:ticketId/work-logs/:workLogId')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @CurrentUser() user: { id: string },
+    @Param('projectId') projectId: string,
+    @Param('ticketId') ticketId: string,
+    @Param('workLogId') workLogId: string,
+  ) {
+    return this.workLogsService.remove(projectId, ticketId, workLogId, user.id);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WorkLogsService } from './work-logs.service';
+import { WorkLogsController } from './work-logs.controller';
+
+@Module({
+  controllers: [WorkLogsController],
+  providers: [WorkLogsService],
+  exports: [WorkLogsService],
+})
+export class WorkLogsModule {}
@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateWorkLogDto } from './dto/create-work-log.dto';
+import { UpdateWorkLogDto } from './dto/update-work-log.dto';
+import {
+  ProjectTimeSummaryQueryDto,
+  TimeSummaryQueryDto,
+} from './dto/time-summary-query.dto';
+import { getProjectMember } from '../../common/helpers/project-access.helper';
+import { Role } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { cursorArgs, toPage } from '../../common/helpers/pagination.helper';
+import { formatTicketKey } from '../tickets/ticket-key.helper';
+
+/** `null` when the ticket has no estimate; never negative. */
+export function remainingEstimate(
+  originalEstimate: number | null,
+  timeSpent: number,
+): number | null {
+  return originalEstimate === null
+    ? null
+    : Math.max(0, originalEstimate - timeSpent);
+}
+
+@Injectable()
+export class WorkLogsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    query: PaginationQueryDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    const workLogs = await this.prisma.workLog.findMany({
+      where: { ticketId },
+      include: {
+        user: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(workLogs, query);
+  }
+
+  async create(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    dto: CreateWorkLogDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    return this.prisma.workLog.create({
+      data: {
+        minutes: dto.minutes,
+        date: dto.date
+          ? new Date(dto.date)
+          : new Date(new Date().toISOString().slice(0, 10)),
+        note: dto.note,
+        ticketId,
+        userId,
+      },
+      include: {
+        user: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+      },
+    });
+  }
+
+  async update(
+    projectId: string,
+    ticketId: string,
+    workLogId: string,
+    userId: string,
+    dto: UpdateWorkLogDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    const workLog = await this.findWorkLog(ticketId, workLogId);
+
+    if (workLog.userId !== userId) {
+      throw new ForbiddenException('You can only edit your own work logs');
+    }
+
+    return this.prisma.workLog.update({
+      where: { id: workLogId },
+      data: {
+        ...dto,
+        date: dto.date ? new Date(dto.date) : undefined,
+      },
+      include: {
+        user: {
+          select: { id: true, username: true, firstName: true, lastName: true },
+        },
+      },
+    });
+  }
+
+  async remove(
+    projectId: string,
+    ticketId: string,
+    workLogId: string,
+    userId: string,
+  ) {
+    const member = await getProjectMember(this.prisma, projectId, userId);
+    await this.findTicketInProject(projectId, ticketId);
+
+    const workLog = await this.findWorkLog(ticketId, workLogId);
+
+    const isAuthor = workLog.userId === userId;
+    const isAdminOrOwner = ([Role.OWNER, Role.ADMIN] as Role[]).includes(
+      member.role,
+    );
+
+    if (!isAuthor && !isAdminOrOwner) {
+      throw new ForbiddenException('You can only delete your own work logs');
+    }
+
+    await this.prisma.workLog.delete({ where: { id: workLogId } });
+
+    return { message: 'Work log deleted successfully' };
+  }
+
+  /**
+   * Estimate vs. logged time for one ticket. `timeSpent` and
+   * `remainingEstimate` are all-time; `loggedMinutes` and `byUser` cover
+   * only the requested date range.
+   */
+  async getTicketSummary(
+    projectId: string,
+    ticketId: string,
+    userId: string,
+    query: TimeSummaryQueryDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+    const ticket = await this.findTicketInProject(projectId, ticketId);
+
+    const timeSpent = await this.getTimeSpent(ticketId);
+
+    const byUserTotals = await this.prisma.workLog.groupBy({
+      by: ['userId'],
+      where: { ticketId, date: this.buildDateFilter(query) },
+      _sum: { minutes: true },
+    });
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: byUserTotals.map((row) => row.userId) } },
+      select: { id: true, username: true, firstName: true, lastName: true },
+    });
+
+    const byUser = byUserTotals
+      .map((row) => ({
+        user: users.find((user) => user.id === row.userId),
+        minutes: row._sum.minutes ?? 0,
+      }))
+      .sort((a, b) => b.minutes - a.minutes);
+
+    return {
+      ticketId,
+      storyPoints: ticket.storyPoints,
+      originalEstimate: ticket.originalEstimate,
+      timeSpent,
+      remainingEstimate: remainingEstimate(ticket.originalEstimate, timeSpent),
+      from: query.from ?? null,
+      to: query.to ?? null,
+      loggedMinutes: byUser.reduce((sum, row) => sum + row.minutes, 0),
+      byUser,
+    };
+  }
+
+  /** Logged time per user and ticket across a project, e.g. for billing. */
+  async getProjectSummary(
+    projectId: string,
+    userId: string,
+    query: ProjectTimeSummaryQueryDto,
+  ) {
+    await getProjectMember(this.prisma, projectId, userId);
+
+    const rows = await this.prisma.workLog.groupBy({
+      by: ['userId', 'ticketId'],
+      where: {
+        ticket: { projectId, deletedAt: null },
+        date: this.buildDateFilter(query),
+        ...(query.userId && { userId: query.userId }),
+      },
+      _sum: { minutes: true },
+    });
+
+    const [project, users, tickets] = await Promise.all([
+      this.prisma.project.findUniqueOrThrow({
+        where: { id: projectId },
+        select: { key: true },
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: rows.map((row) => row.userId) } },
+        select: { id: true, username: true, firstName: true, lastName: true },
+      }),
+      this.prisma.ticket.findMany({
+        where: { id: { in: rows.map((row) => row.ticketId) } },
+        select: { id: true, number: true, title: true },
+      }),
+    ]);
+
+    const summaries = users.map((user) => {
+      const ticketRows = rows
+        .filter((row) => row.userId === user.id)
+        .map((row) => {
+          const ticket = tickets.find((t) => t.id === row.ticketId)!;
+          return {
+            ticketId: ticket.id,
+            key: formatTicketKey(project.key, ticket.number),
+            title: ticket.title,
+            minutes: row._sum.minutes ?? 0,
+          };
+        })
+        .sort((a, b) => b.minutes - a.minutes);
+
+      return {
+        user,
+        totalMinutes: ticketRows.reduce((sum, row) => sum + row.minutes, 0),
+        tickets: ticketRows,
+      };
+    });
+
+    return {
+      from: query.from ?? null,
+      to: query.to ?? null,
+      totalMinutes: summaries.reduce((sum, s) => sum + s.totalMinutes, 0),
+      users: summaries.sort((a, b) => b.totalMinutes - a.totalMinutes),
+    };
+  }
+
+  /** Total minutes logged against a ticket. */
+  async getTimeSpent(ticketId: string): Promise<number> {
+    const { _sum } = await this.prisma.workLog.aggregate({
+      where: { ticketId },
+      _sum: { minutes: true },
+    });
+
+    return _sum.minutes ?? 0;
+  }
+
+  private buildDateFilter(
+    query: TimeSummaryQueryDto,
+  ): Prisma.DateTimeFilter | undefined {
+    if (!query.from && !query.to) return undefined;
+
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    return {
+      ...(query.from && { gte: new Date(query.from) }),
+      ...(query.to && { lte: new Date(query.to) }),
+    };
+  }
+
+  private async findTicketInProject(projectId: string, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, projectId, deletedAt: null },
+    });
+
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    return ticket;
+  }
+
+  private async findWorkLog(ticketId: string, workLogId: string) {
+    const workLog = await this.prisma.workLog.findFirst({
+      where: { id: workLogId, ticketId },
+    });
+
+    if (!workLog) throw new NotFoundException('Work log not found');
+
+    return workLog;
+  }
+}